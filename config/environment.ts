@@ -0,0 +1,157 @@
+import { environmentNames, EnvironmentName, EnvironmentProfile, profiles } from './profiles';
+
+/**
+ * Profile used when neither TEST_ENV nor --env is given
+ */
+export const defaultEnvironmentName: EnvironmentName = 'prod-like';
+
+/**
+ * Error thrown when the selected environment profile is unknown or invalid
+ */
+export class EnvironmentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentConfigError';
+  }
+}
+
+/**
+ * Read the --env flag from command line arguments
+ * @param argv - Command line arguments
+ * @returns The flag value, or undefined if the flag is not present
+ */
+export const readEnvFlag = (argv: string[]): string | undefined => {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--env') {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith('--env=')) {
+      return argv[i].slice('--env='.length);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check that a name refers to a known profile
+ * @param name - Candidate profile name
+ * @returns Boolean indicating if the name is a known profile
+ */
+export const isEnvironmentName = (name: string): name is EnvironmentName => {
+  return (environmentNames as readonly string[]).includes(name);
+};
+
+/**
+ * Validate a profile base URL
+ * @param baseUrl - Base URL to validate
+ * @returns List of problems, empty when the URL is valid
+ */
+const validateBaseUrl = (baseUrl: string): string[] => {
+  try {
+    const url = new URL(baseUrl);
+    const problems: string[] = [];
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      problems.push(`baseUrl must use http or https, got "${baseUrl}"`);
+    }
+    if (url.pathname !== '/' || baseUrl.endsWith('/')) {
+      problems.push(`baseUrl must be an origin without a trailing path, got "${baseUrl}"`);
+    }
+    return problems;
+  } catch (error) {
+    return [`baseUrl is not a valid URL: "${baseUrl}"`];
+  }
+};
+
+/**
+ * Validate an environment profile
+ * @param profile - Profile to validate
+ * @returns List of problems, empty when the profile is valid
+ */
+export const validateProfile = (profile: EnvironmentProfile): string[] => {
+  const problems: string[] = [];
+
+  if (!profile.baseUrl) {
+    problems.push('baseUrl is not set');
+  } else {
+    problems.push(...validateBaseUrl(profile.baseUrl));
+  }
+
+  for (const key of ['actionTimeout', 'expectTimeout', 'submitTimeout'] as const) {
+    if (!Number.isInteger(profile[key]) || profile[key] <= 0) {
+      problems.push(`${key} must be a positive integer, got ${profile[key]}`);
+    }
+  }
+
+  if (!Number.isInteger(profile.retries) || profile.retries < 0) {
+    problems.push(`retries must be a non-negative integer, got ${profile.retries}`);
+  }
+
+  if (profile.catalogDrift !== 'fail' && profile.catalogDrift !== 'warn') {
+    problems.push(`catalogDrift must be "fail" or "warn", got "${profile.catalogDrift}"`);
+  }
+
+  if (!profile.credentials.username || !profile.credentials.password) {
+    problems.push('credentials must have a username and a password');
+  }
+
+  if (profile.catalog.length === 0) {
+    problems.push('catalog must list at least one product');
+  }
+
+  const seenIds = new Set<string>();
+  const seenTitles = new Set<string>();
+  for (const product of profile.catalog) {
+    if (!/^product-\d+$/.test(product.id)) {
+      problems.push(`catalog id must look like "product-N", got "${product.id}"`);
+    }
+    if (seenIds.has(product.id)) {
+      problems.push(`catalog id "${product.id}" is listed more than once`);
+    }
+    if (seenTitles.has(product.title)) {
+      problems.push(`catalog title "${product.title}" is listed more than once`);
+    }
+    if (!(product.price > 0)) {
+      problems.push(`catalog price for "${product.title}" must be positive, got ${product.price}`);
+    }
+    seenIds.add(product.id);
+    seenTitles.add(product.title);
+  }
+
+  return problems;
+};
+
+/**
+ * Resolve the active environment profile.
+ * The --env flag wins over the TEST_ENV variable; both fall back to the default profile.
+ * @param env - Environment variables
+ * @param argv - Command line arguments
+ * @returns The validated profile
+ * @throws EnvironmentConfigError if the profile is unknown or invalid
+ */
+export const resolveEnvironment = (
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv
+): EnvironmentProfile => {
+  const name = readEnvFlag(argv) || env.TEST_ENV || defaultEnvironmentName;
+
+  if (!isEnvironmentName(name)) {
+    throw new EnvironmentConfigError(
+      `Unknown environment profile "${name}". Expected one of: ${environmentNames.join(', ')}`
+    );
+  }
+
+  const profile = profiles[name];
+  const problems = validateProfile(profile);
+  if (problems.length > 0) {
+    throw new EnvironmentConfigError(
+      `Environment profile "${name}" is invalid:\n${problems.map(problem => `  - ${problem}`).join('\n')}`
+    );
+  }
+
+  return profile;
+};
+
+/**
+ * The resolved profile shared by the Playwright config and every page object
+ */
+export const environment = resolveEnvironment();
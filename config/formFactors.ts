@@ -0,0 +1,16 @@
+/**
+ * Device classes the project matrix covers. Phone and tablet viewports collapse the navbar
+ * behind its toggle button.
+ */
+export const formFactors = ['desktop', 'phone', 'tablet'] as const;
+
+export type FormFactor = typeof formFactors[number];
+
+/**
+ * Read the form factors a test declares through its tags, e.g. `{ tag: ['@phone', '@tablet'] }`
+ * @param tags - The test's tags
+ * @returns Declared form factors; empty when the test applies to every form factor
+ */
+export const declaredFormFactors = (tags: readonly string[]): FormFactor[] => {
+  return formFactors.filter(formFactor => tags.includes(`@${formFactor}`));
+};
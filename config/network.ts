@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { environment, EnvironmentConfigError } from './environment';
+import { EnvironmentName } from './profiles';
+
+/**
+ * How tests reach the app:
+ * - live: real network
+ * - record: real network, capturing every response into HAR files
+ * - replay: no network, every response served from the HAR files
+ */
+export const networkModes = ['live', 'record', 'replay'] as const;
+
+export type NetworkMode = typeof networkModes[number];
+
+/**
+ * Resolve the network mode from NETWORK_MODE
+ * @param value - NETWORK_MODE value
+ * @returns The network mode (default: live)
+ */
+export const resolveNetworkMode = (value: string | undefined): NetworkMode => {
+  if (!value) {
+    return 'live';
+  }
+  if (!(networkModes as readonly string[]).includes(value)) {
+    throw new EnvironmentConfigError(`Invalid NETWORK_MODE "${value}" (expected one of: ${networkModes.join(', ')})`);
+  }
+  return value as NetworkMode;
+};
+
+export const networkMode = resolveNetworkMode(process.env.NETWORK_MODE);
+
+/**
+ * Recordings are kept per environment profile, since each profile points at a different app
+ */
+export const harDirectory = path.join('tests', 'har', environment.name);
+
+/**
+ * Per-test recordings made in record mode, merged into one file per spec by the global teardown
+ */
+export const harRecordingDirectory = path.join(harDirectory, '.recording');
+
+/**
+ * Recording of the login that creates the session of tests that start authenticated
+ */
+export const loginSessionHarFile = path.join(harDirectory, 'login-session.har');
+
+/**
+ * Get the recording for a spec
+ * @param specFile - Path of the spec file
+ * @returns Path of the spec's HAR file, e.g. tests/har/prod-like/cart.har
+ */
+export const harFileForSpec = (specFile: string): string => {
+  return path.join(harDirectory, `${path.basename(specFile).replace(/\.spec\.ts$/, '')}.har`);
+};
+
+/**
+ * Contact form contract of the Jupiter Toys app, which the stand-in app implements too (see /mock-app)
+ */
+const jupiterToysContactApi: ContactSubmissionApi = {
+  endpoint: '**/api/contact',
+  sendError: 'Sorry, we could not send your feedback. Please try again.'
+};
+
+/**
+ * How each profile's app sends the contact form
+ */
+export const contactSubmissionApis: Record<EnvironmentName, ContactSubmissionApi> = {
+  local: jupiterToysContactApi,
+  dev: jupiterToysContactApi,
+  staging: jupiterToysContactApi,
+  'prod-like': jupiterToysContactApi
+};
+
+/**
+ * Contact form contract of the active profile; CONTACT_ENDPOINT overrides the endpoint for a build that posts elsewhere
+ */
+export const contactSubmissionApi: ContactSubmissionApi = {
+  ...contactSubmissionApis[environment.name],
+  endpoint: process.env.CONTACT_ENDPOINT || contactSubmissionApis[environment.name].endpoint
+};
+
+/**
+ * Interface for how an app sends the contact form: the URL glob of the request it posts
+ * and the error it shows when sending fails
+ */
+export interface ContactSubmissionApi {
+  endpoint: string;
+  sendError: string;
+}
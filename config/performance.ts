@@ -0,0 +1,44 @@
+import { Route } from './routes';
+
+/**
+ * What a performance measurement timed: loading a view, or an action taken on it
+ * - navigation: from leaving the previous view (or starting the page load) until the new view is ready
+ * - buy: from clicking a product's Buy button until the cart count shows it
+ * - submit: from submitting a form until its outcome is shown
+ */
+export const performanceActions = ['navigation', 'buy', 'submit'] as const;
+
+export type PerformanceAction = typeof performanceActions[number];
+
+/**
+ * Budgets for the measurements taken on each route (the view the measurement ended on).
+ * The limits leave room for the public site over the internet; the stand-in app is far inside them.
+ * Actions that wait on the app's own delays, such as the contact form's "Sending Feedback" progress,
+ * only warn, since their time is mostly the app's and not the page's.
+ */
+export const performanceBudgets: PerformanceBudget[] = [
+  { route: Route.Home, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000 }, onExceed: 'fail' },
+  { route: Route.Shop, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000 }, onExceed: 'fail' },
+  { route: Route.Shop, action: 'buy', limits: { timeToReadyMs: 1500 }, onExceed: 'warn' },
+  { route: Route.Cart, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000 }, onExceed: 'fail' },
+  { route: Route.Contact, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000 }, onExceed: 'fail' },
+  { route: Route.Contact, action: 'submit', limits: { timeToReadyMs: 10000 }, onExceed: 'warn' },
+  { route: Route.Checkout, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000 }, onExceed: 'fail' },
+  { route: Route.Checkout, action: 'submit', limits: { timeToReadyMs: 10000 }, onExceed: 'warn' }
+];
+
+/**
+ * Metrics a budget can limit
+ */
+export type BudgetedMetric = 'timeToReadyMs' | 'firstContentfulPaintMs' | 'domContentLoadedMs' | 'transferKb';
+
+/**
+ * Interface for the budget of one kind of measurement on one route
+ */
+export interface PerformanceBudget {
+  route: Route;
+  action: PerformanceAction;
+  limits: Partial<Record<BudgetedMetric, number>>;
+  // Fail the test, or only annotate it with a warning
+  onExceed: 'fail' | 'warn';
+}
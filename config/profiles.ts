@@ -0,0 +1,139 @@
+import jupiterToysCatalog from './catalogs/jupiter-toys.json';
+
+/**
+ * Names of the supported environment profiles
+ */
+export const environmentNames = ['local', 'dev', 'staging', 'prod-like'] as const;
+
+export type EnvironmentName = typeof environmentNames[number];
+
+/**
+ * Committed baseline of the products the shop is expected to sell
+ */
+export const jupiterToysCatalogFile = 'config/catalogs/jupiter-toys.json';
+
+/**
+ * Account the login specs and authenticated sessions sign in with.
+ * The Jupiter Toys app accepts any username with the password "letmein".
+ */
+const jupiterToysCredentials: Credentials = {
+  username: process.env.LOGIN_USERNAME || 'testuser',
+  password: process.env.LOGIN_PASSWORD || 'letmein'
+};
+
+/**
+ * Port the bundled stand-in app listens on (see /mock-app)
+ */
+export const mockAppPort = Number(process.env.MOCK_APP_PORT) || 4300;
+
+/**
+ * Environment profiles.
+ * dev and staging have no public host, so their base URLs come from the environment.
+ * submitTimeout bounds waiting for a submitted form's outcome, which the app only shows after sending it.
+ * dev only warns about catalog drift because products change there while in development.
+ * visualBaselineProjects and ariaBaselines declare which committed baselines a profile has;
+ * @visual and ARIA snapshot tests are skipped where there are none.
+ */
+export const profiles: Record<EnvironmentName, EnvironmentProfile> = {
+  local: {
+    name: 'local',
+    baseUrl: `http://localhost:${mockAppPort}`,
+    actionTimeout: 5000,
+    expectTimeout: 5000,
+    submitTimeout: 15000,
+    retries: 0,
+    startMockApp: true,
+    catalog: jupiterToysCatalog,
+    catalogFile: jupiterToysCatalogFile,
+    catalogDrift: 'fail',
+    credentials: jupiterToysCredentials,
+    visualBaselineProjects: ['chromium', 'phone'],
+    ariaBaselines: true
+  },
+  dev: {
+    name: 'dev',
+    baseUrl: process.env.DEV_BASE_URL || '',
+    actionTimeout: 10000,
+    expectTimeout: 5000,
+    submitTimeout: 20000,
+    retries: 1,
+    startMockApp: false,
+    catalog: jupiterToysCatalog,
+    catalogFile: jupiterToysCatalogFile,
+    catalogDrift: 'warn',
+    credentials: jupiterToysCredentials,
+    visualBaselineProjects: [],
+    ariaBaselines: false
+  },
+  staging: {
+    name: 'staging',
+    baseUrl: process.env.STAGING_BASE_URL || '',
+    actionTimeout: 10000,
+    expectTimeout: 7000,
+    submitTimeout: 20000,
+    retries: 1,
+    startMockApp: false,
+    catalog: jupiterToysCatalog,
+    catalogFile: jupiterToysCatalogFile,
+    catalogDrift: 'fail',
+    credentials: jupiterToysCredentials,
+    visualBaselineProjects: [],
+    ariaBaselines: false
+  },
+  'prod-like': {
+    name: 'prod-like',
+    baseUrl: 'http://jupiter.cloud.planittesting.com',
+    actionTimeout: 15000,
+    expectTimeout: 5000,
+    submitTimeout: 30000,
+    retries: 2,
+    startMockApp: false,
+    catalog: jupiterToysCatalog,
+    catalogFile: jupiterToysCatalogFile,
+    catalogDrift: 'fail',
+    credentials: jupiterToysCredentials,
+    visualBaselineProjects: [],
+    ariaBaselines: false
+  }
+};
+
+/**
+ * Interface for an environment profile
+ */
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  baseUrl: string;
+  actionTimeout: number;
+  expectTimeout: number;
+  submitTimeout: number;
+  retries: number;
+  startMockApp: boolean;
+  catalog: ProductDefinition[];
+  catalogFile: string;
+  catalogDrift: CatalogDriftPolicy;
+  credentials: Credentials;
+  visualBaselineProjects: readonly string[];
+  ariaBaselines: boolean;
+}
+
+/**
+ * Interface for login credentials
+ */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * What to do when the live catalog differs from the baseline
+ */
+export type CatalogDriftPolicy = 'fail' | 'warn';
+
+/**
+ * Interface for a product the profile expects the shop to sell
+ */
+export interface ProductDefinition {
+  id: string;
+  title: string;
+  price: number;
+}
@@ -0,0 +1,54 @@
+/**
+ * Views of the app, named after their hash path: #/shop is Route.Shop and the root is Route.Home
+ */
+export const Route = {
+  Home: 'home',
+  Shop: 'shop',
+  Cart: 'cart',
+  Contact: 'contact',
+  Checkout: 'checkout'
+} as const;
+
+export type Route = typeof Route[keyof typeof Route];
+
+/**
+ * Where each route lives and what shows once its view has rendered.
+ * Cart and checkout render an empty-cart message instead of their content when nothing has been bought,
+ * and checkout replaces its form with the order confirmation once an order is placed.
+ */
+export const routeDefinitions: Record<Route, RouteDefinition> = {
+  [Route.Home]: { path: '/', ready: '.hero-unit' },
+  [Route.Shop]: { path: '/#/shop', ready: '.products .product' },
+  [Route.Cart]: { path: '/#/cart', ready: '.cart-items, .cart-msg' },
+  [Route.Contact]: { path: '/#/contact', ready: '.btn-contact' },
+  [Route.Checkout]: { path: '/#/checkout', ready: '#checkout-submit-btn, .order-number, .cart-msg' }
+};
+
+/**
+ * Check that a name refers to a known route
+ * @param name - Candidate route name
+ * @returns Boolean indicating if the name is a known route
+ */
+export const isRoute = (name: string): name is Route => {
+  return (Object.values(Route) as string[]).includes(name);
+};
+
+/**
+ * Name the route a URL shows, from its hash, e.g. `/#/shop` -> shop
+ * @param url - Page URL
+ * @returns Route name, which may not be a known route; home for the root
+ */
+export const routeOf = (url: string): string => {
+  const hash = url.includes('#') ? url.slice(url.indexOf('#') + 1) : '';
+  return hash.replace(/^\/?/, '').split('?')[0] || Route.Home;
+};
+
+/**
+ * Interface for where a route lives and when it is ready
+ */
+export interface RouteDefinition {
+  // Path appended to the base URL
+  path: string;
+  // Selector of an element that shows once the view has rendered
+  ready: string;
+}
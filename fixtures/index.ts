@@ -0,0 +1,12 @@
+/**
+ * Test fixtures for the specs. Import `test` and `expect` from here instead of '@playwright/test'.
+ */
+import { mergeTests } from '@playwright/test';
+import { test as pageTest } from './pages';
+import { test as networkTest } from './network';
+
+export const test = mergeTests(pageTest, networkTest);
+export type { PageFixtures, PageOptions, CartContents } from './pages';
+export type { NetworkFixtures, NetworkOptions } from './network';
+export { expect } from './matchers';
+export { Route } from '../config/routes';
@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import { expect as base, test } from '@playwright/test';
+import { SubtotalVerificationResult, TotalVerificationResult } from '../pages/CartPage';
+import { ContactPage } from '../pages/ContactPage';
+import { ContactField } from '../models/ContactForm';
+import { BasePage } from '../pages/BasePage';
+import { visualDiffs, describeScreenshotFailure, isUpdatingBaselines } from '../utils/visualDiffs';
+import { AccessibilityReport, formatAccessibilityReport } from '../utils/accessibility';
+
+/**
+ * Lay out rows as a fixed-width table
+ * @param header - Column headings
+ * @param rows - Table cells
+ * @returns Multi-line table
+ */
+const formatTable = (header: string[], rows: string[][]): string => {
+  const widths = header.map((heading, column) =>
+    Math.max(heading.length, ...rows.map(row => row[column].length))
+  );
+  const formatRow = (cells: string[]): string =>
+    cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [formatRow(header), formatRow(widths.map(width => '-'.repeat(width))), ...rows.map(formatRow)].join('\n');
+};
+
+/**
+ * Assertions on cart and form verification results and on page objects' visual and accessibility checkpoints.
+ * They work with expect.soft, so a test can report every bad line, field and checkpoint in one run.
+ */
+export const expect = base.extend({
+  /**
+   * Every cart line's subtotal equals price x quantity.
+   * Usage: `expect(await cartPage.verifySubtotals()).toHaveCorrectSubtotals()`
+   */
+  toHaveCorrectSubtotals(received: SubtotalVerificationResult[]) {
+    const name = 'toHaveCorrectSubtotals';
+    const wrong = received.filter(result => !result.isCorrect);
+    const pass = received.length > 0 && wrong.length === 0;
+
+    const table = formatTable(
+      ['Product', 'Price', 'Qty', 'Expected', 'Actual', ''],
+      received.map(result => [
+        result.productName,
+        result.price.format(),
+        String(result.quantity),
+        result.expectedSubtotal.format(),
+        result.actualSubtotal.format(),
+        result.isCorrect ? 'ok' : 'WRONG'
+      ])
+    );
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, 'subtotals', '', { isNot: this.isNot });
+      if (received.length === 0) {
+        return `${hint}\n\nNo cart lines to verify`;
+      }
+      const summary = this.isNot
+        ? 'Expected at least one wrong subtotal, but every line is correct'
+        : `${wrong.length} of ${received.length} subtotal(s) do not equal price x quantity`;
+      return `${hint}\n\n${summary}\n\n${table}`;
+    };
+
+    return { pass, message, name, expected: 'price x quantity for every line', actual: table };
+  },
+
+  /**
+   * The cart total equals the sum of the line subtotals.
+   * Usage: `expect(await cartPage.verifyTotal()).toHaveTotalMatchingSubtotals()`
+   */
+  toHaveTotalMatchingSubtotals(received: TotalVerificationResult) {
+    const name = 'toHaveTotalMatchingSubtotals';
+    const pass = received.isCorrect;
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, 'total', '', { isNot: this.isNot });
+      const difference = received.total.subtract(received.sumOfSubtotals);
+      return `${hint}\n\n` +
+        `Expected total: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(received.sumOfSubtotals.format())} (sum of subtotals)\n` +
+        `Cart total:     ${this.utils.printReceived(received.total.format())}` +
+        (pass ? '' : ` (off by ${difference.format()})`);
+    };
+
+    return { pass, message, name, expected: received.sumOfSubtotals, actual: received.total };
+  },
+
+  /**
+   * A contact form field shows a validation error, optionally matching a text or pattern.
+   * Usage: `await expect(contactPage).toShowFieldError('email', /required/)`
+   */
+  async toShowFieldError(received: ContactPage, field: ContactField, expected?: string | RegExp) {
+    const name = 'toShowFieldError';
+    const state = await received.getFieldState(field);
+    const errorText = state.errorText || '';
+    const textMatches = expected === undefined
+      || (typeof expected === 'string' ? errorText === expected : expected.test(errorText));
+    const pass = state.errorVisible && textMatches;
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, field, expected === undefined ? '' : String(expected), { isNot: this.isNot });
+      const shown = state.errorVisible
+        ? `${field} shows ${this.utils.printReceived(errorText)}`
+        : `${field} shows no error (value ${this.utils.printReceived(state.value)})`;
+      const wanted = expected === undefined ? 'an error' : this.utils.printExpected(expected);
+      return `${hint}\n\nExpected ${field} ${this.isNot ? 'not ' : ''}to show ${wanted}\n${shown}`;
+    };
+
+    return { pass, message, name, expected, actual: state.errorText };
+  },
+
+  /**
+   * A page object's visual checkpoint matches its baseline for the running project,
+   * with the checkpoint's dynamic regions masked.
+   * Usage: `await expect(contactPage).toMatchVisualCheckpoint('success')`
+   */
+  async toMatchVisualCheckpoint(received: BasePage, checkpointName: string) {
+    const name = 'toMatchVisualCheckpoint';
+    const checkpoint = received.visualCheckpoint(checkpointName);
+    const options = { mask: checkpoint.mask, animations: 'disabled' as const, caret: 'hide' as const };
+
+    // A missing baseline is reported here, once: toHaveScreenshot would write it and report it as
+    // a test error of its own on top of this matcher's failure. Update runs let it write the baseline.
+    const testInfo = test.info();
+    const baseline = testInfo.snapshotPath(checkpoint.screenshotName, { kind: 'screenshot' });
+    let difference: string | null = null;
+    if (!fs.existsSync(baseline) && !isUpdatingBaselines(testInfo)) {
+      difference = `missing baseline ${baseline}, run "npm run visual:update"`;
+    } else {
+      // toHaveScreenshot attaches the expected, actual and diff images itself when they differ
+      try {
+        if (checkpoint.region) {
+          await base(checkpoint.region).toHaveScreenshot(checkpoint.screenshotName, options);
+        } else {
+          await base(checkpoint.page).toHaveScreenshot(checkpoint.screenshotName, { ...options, fullPage: true });
+        }
+      } catch (error) {
+        difference = describeScreenshotFailure(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const pass = difference === null;
+    visualDiffs.record({ checkpoint: checkpoint.name, matched: pass, difference });
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, received.constructor.name, checkpointName, { isNot: this.isNot });
+      return pass
+        ? `${hint}\n\nExpected ${checkpoint.name} not to match its baseline, but it does`
+        : `${hint}\n\n${checkpoint.name} differs from its baseline: ${difference}`;
+    };
+
+    return { pass, message, name, expected: checkpoint.screenshotName, actual: difference };
+  },
+
+  /**
+   * A page object's accessibility tree matches its committed ARIA snapshot baseline.
+   * Usage: `await expect(shopPage).toMatchAriaCheckpoint()`
+   */
+  async toMatchAriaCheckpoint(received: BasePage) {
+    const name = 'toMatchAriaCheckpoint';
+    const checkpoint = received.ariaCheckpoint();
+    const testInfo = test.info();
+    const baseline = testInfo.snapshotPath(checkpoint.snapshotName, { kind: 'aria' });
+    const updating = isUpdatingBaselines(testInfo);
+
+    // A missing baseline is reported here, once, instead of being written and reported by toMatchAriaSnapshot too
+    let difference: string | null = null;
+    if (!updating && !fs.existsSync(baseline)) {
+      difference = `missing baseline ${baseline}, run "npm run a11y:update"`;
+    } else {
+      try {
+        await base(checkpoint.region).toMatchAriaSnapshot({ name: checkpoint.snapshotName });
+      } catch (error) {
+        difference = error instanceof Error ? error.message : String(error);
+      }
+    }
+    const pass = difference === null;
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, received.constructor.name, '', { isNot: this.isNot });
+      return pass
+        ? `${hint}\n\nExpected ${checkpoint.name} not to match its ARIA baseline, but it does`
+        : `${hint}\n\n${received.constructor.name} accessibility tree differs from ${checkpoint.snapshotName}:\n\n${difference}`;
+    };
+
+    return { pass, message, name, expected: checkpoint.snapshotName, actual: difference };
+  },
+
+  /**
+   * A page has no unlabeled inputs, unnamed buttons or images without alt text.
+   * Usage: `expect(await contactPage.checkAccessibility()).toHaveNoAccessibilityIssues()`
+   */
+  toHaveNoAccessibilityIssues(received: AccessibilityReport) {
+    const name = 'toHaveNoAccessibilityIssues';
+    const pass = received.issues.length === 0;
+
+    const message = (): string => {
+      const hint = this.utils.matcherHint(name, received.pageObject, '', { isNot: this.isNot });
+      return pass
+        ? `${hint}\n\nExpected accessibility issues on ${received.pageObject}, but every check passed`
+        : `${hint}\n\n${formatAccessibilityReport(received)}`;
+    };
+
+    return { pass, message, name, expected: [], actual: received.issues };
+  }
+});
@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { test as base } from '@playwright/test';
+import { networkMode, NetworkMode, harFileForSpec, harRecordingDirectory } from '../config/network';
+import { routeFromRecording, HarReplayError } from '../utils/harRecordings';
+import { ContactSubmissionInterceptor } from '../utils/contactSubmissions';
+
+/**
+ * Network interception injected into tests
+ */
+export type NetworkFixtures = {
+  /**
+   * Captures contact form submissions and injects slow, failed or aborted responses.
+   * Usage: `contactSubmissions.injectFault({ type: 'status', status: 503 })`
+   */
+  contactSubmissions: ContactSubmissionInterceptor;
+};
+
+/**
+ * Options a spec can set with test.use
+ */
+export type NetworkOptions = {
+  /**
+   * live, record or replay; defaults to NETWORK_MODE
+   */
+  networkMode: NetworkMode;
+};
+
+/**
+ * Fixtures that run for every test without being requested
+ */
+type AutoFixtures = {
+  harRouting: void;
+};
+
+export const test = base.extend<NetworkFixtures & NetworkOptions & AutoFixtures>({
+  networkMode: [networkMode, { option: true }],
+
+  contactSubmissions: async ({ page }, use) => {
+    const interceptor = new ContactSubmissionInterceptor(page);
+    await interceptor.install();
+    await use(interceptor);
+  },
+
+  harRouting: [async ({ context, networkMode }, use, testInfo) => {
+    // Each test records its own file; the global teardown merges them into the spec's HAR file
+    const harFile = networkMode === 'record'
+      ? path.join(harRecordingDirectory, path.basename(harFileForSpec(testInfo.file), '.har'), `${testInfo.testId}.har`)
+      : harFileForSpec(testInfo.file);
+
+    const unmatched = await routeFromRecording(context, harFile, networkMode);
+    await use();
+
+    if (unmatched.length > 0) {
+      throw new HarReplayError(harFile, unmatched);
+    }
+  }, { auto: true }]
+});
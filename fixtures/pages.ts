@@ -0,0 +1,277 @@
+import { test as base } from '@playwright/test';
+import { HomePage } from '../pages/HomePage';
+import { ShopPage } from '../pages/ShopPage';
+import { CartPage } from '../pages/CartPage';
+import { ContactPage } from '../pages/ContactPage';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import { LoginPage } from '../pages/LoginPage';
+import { App } from '../pages/App';
+import { environment } from '../config/environment';
+import { FormFactor, declaredFormFactors } from '../config/formFactors';
+import * as fs from 'fs';
+import { logger, testLogCapture, formatLogEntry } from '../utils/logger';
+import { selectorHealing, formatHealingReport } from '../utils/selectorHealing';
+import { visualDiffs, formatVisualDiffSummary } from '../utils/visualDiffs';
+import { runCache } from '../utils/runCache';
+import { redaction } from '../utils/redaction';
+import { createAuthenticatedState, StorageState } from '../utils/authSession';
+import { performanceMetrics, checkBudget, formatViolation, PerformanceBudgetError } from '../utils/performanceMetrics';
+
+/**
+ * Page objects and pre-built app states injected into tests
+ */
+export type PageFixtures = {
+  homePage: HomePage;
+  shopPage: ShopPage;
+  cartPage: CartPage;
+  contactPage: ContactPage;
+  checkoutPage: CheckoutPage;
+  loginPage: LoginPage;
+
+  /**
+   * Facade over the app's routes, handing out the page objects above.
+   * Usage: `const cartPage = await app.goto(Route.Cart);`
+   */
+  app: App;
+
+  /**
+   * Buy the given quantities from the shop and open the cart.
+   * Usage: `const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 5 });`
+   */
+  cartWith: (items: CartContents) => Promise<CartPage>;
+
+  /**
+   * Contact page after submitting the empty form, so every required-field error is showing
+   */
+  contactPageWithErrors: ContactPage;
+};
+
+/**
+ * Options a spec can set with test.use
+ */
+export type PageOptions = {
+  /**
+   * Start the test logged in, with the session of a login made once per run by the first test that needs it
+   */
+  authenticated: boolean;
+
+  /**
+   * Form factor of the project's device, set per project in playwright.config.ts
+   */
+  formFactor: FormFactor;
+};
+
+/**
+ * Product names mapped to the quantity to buy
+ */
+export type CartContents = Record<string, number>;
+
+/**
+ * Fixtures shared by the tests of a worker
+ */
+type WorkerFixtures = {
+  // Resolves to the storage state of the run's logged-in session, logging in on first use
+  authenticatedState: () => Promise<StorageState>;
+};
+
+/**
+ * Fixtures that run for every test without being requested
+ */
+type AutoFixtures = {
+  sensitiveValueScope: void;
+  formFactorFilter: void;
+  healedSelectorReport: void;
+  testLog: void;
+  failureScreenshot: void;
+  visualDiffSummary: void;
+  performanceReport: void;
+};
+
+/**
+ * Inputs declared sensitive by any page object, masked in failure screenshots
+ */
+const sensitiveSelectors = [HomePage, ShopPage, CartPage, ContactPage, CheckoutPage, LoginPage]
+  .flatMap(pageObject => pageObject.sensitiveSelectors);
+
+export const test = base.extend<PageFixtures & PageOptions & AutoFixtures, WorkerFixtures>({
+  authenticated: [false, { option: true }],
+  formFactor: ['desktop', { option: true }],
+
+  // Declared first so it is torn down last, after the other fixtures have masked their attachments
+  sensitiveValueScope: [async ({}, use) => {
+    redaction.clear();
+    await use();
+    redaction.clear();
+  }, { auto: true }],
+
+  // Tests tagged with form factors, e.g. { tag: '@desktop' }, are skipped on the other projects
+  formFactorFilter: [async ({ formFactor }, use, testInfo) => {
+    const declared = declaredFormFactors(testInfo.tags);
+    testInfo.skip(
+      declared.length > 0 && !declared.includes(formFactor),
+      `Applies to ${declared.join(', ')} only; this project is ${formFactor}`
+    );
+    await use();
+  }, { auto: true }],
+
+  testLog: [async ({}, use, testInfo) => {
+    testLogCapture.start();
+    await use();
+
+    // Attached by path so the JUnit reporter links it as well as the HTML report
+    const entries = testLogCapture.stop();
+    if (entries.length > 0) {
+      const logPath = testInfo.outputPath('test.log');
+      fs.writeFileSync(logPath, entries.map(formatLogEntry).join('\n') + '\n');
+      await testInfo.attach('test-log', { path: logPath, contentType: 'text/plain' });
+    }
+  }, { auto: true }],
+
+  // Replaces the config's screenshot option, which cannot mask elements
+  failureScreenshot: [async ({ page }, use, testInfo) => {
+    await use();
+
+    if (testInfo.status !== testInfo.expectedStatus && !page.isClosed()) {
+      const screenshot = await page.screenshot({
+        fullPage: true,
+        mask: sensitiveSelectors.map(selector => page.locator(selector))
+      });
+      await testInfo.attach('screenshot', { body: screenshot, contentType: 'image/png' });
+    }
+  }, { auto: true }],
+
+  healedSelectorReport: [async ({}, use, testInfo) => {
+    selectorHealing.drain();
+    await use();
+
+    const healed = selectorHealing.drain();
+    if (healed.length > 0) {
+      await testInfo.attach('healed-selectors', {
+        body: formatHealingReport(healed),
+        contentType: 'text/plain'
+      });
+    }
+  }, { auto: true }],
+
+  visualDiffSummary: [async ({}, use, testInfo) => {
+    visualDiffs.drain();
+    await use();
+
+    const compared = visualDiffs.drain();
+    if (compared.length > 0) {
+      await testInfo.attach('visual-diffs', {
+        body: formatVisualDiffSummary(compared),
+        contentType: 'text/plain'
+      });
+    }
+  }, { auto: true }],
+
+  // Budgets that only warn annotate the test; failing budgets fail it once it has finished
+  performanceReport: [async ({}, use, testInfo) => {
+    performanceMetrics.drain();
+    await use();
+
+    const measured = performanceMetrics.drain();
+    if (measured.length === 0) {
+      return;
+    }
+
+    const violations = measured.flatMap(measurement => checkBudget(measurement));
+    await testInfo.attach('performance-metrics', {
+      body: JSON.stringify({ measurements: measured, violations }, null, 2),
+      contentType: 'application/json'
+    });
+
+    for (const violation of violations.filter(violation => violation.onExceed === 'warn')) {
+      testInfo.annotations.push({ type: 'performance-budget', description: formatViolation(violation) });
+    }
+    const failing = violations.filter(violation => violation.onExceed === 'fail');
+    if (failing.length > 0) {
+      throw new PerformanceBudgetError(failing);
+    }
+  }, { auto: true }],
+
+  // Only tests that start authenticated log in, so a failing login does not stop the rest of the run
+  authenticatedState: [async ({ browser }, use) => {
+    let state: Promise<StorageState> | null = null;
+    await use(() => {
+      if (!state) {
+        state = runCache.get(`auth-state-${environment.name}`, () => createAuthenticatedState(browser), environment.actionTimeout * 2);
+        // Let the next test try again rather than share a failed login
+        state.catch(() => {
+          state = null;
+        });
+      }
+      return state;
+    });
+  }, { scope: 'worker' }],
+
+  storageState: async ({ authenticated, authenticatedState, storageState }, use) => {
+    await use(authenticated ? await authenticatedState() : storageState);
+  },
+
+  homePage: async ({ page }, use) => {
+    await use(new HomePage(page));
+  },
+
+  shopPage: async ({ page }, use) => {
+    await use(new ShopPage(page));
+  },
+
+  cartPage: async ({ page }, use) => {
+    await use(new CartPage(page));
+  },
+
+  contactPage: async ({ page }, use) => {
+    await use(new ContactPage(page));
+  },
+
+  checkoutPage: async ({ page }, use) => {
+    await use(new CheckoutPage(page));
+  },
+
+  loginPage: async ({ page }, use) => {
+    await use(new LoginPage(page));
+  },
+
+  app: async ({ page, homePage, shopPage, cartPage, contactPage, checkoutPage }, use) => {
+    await use(new App(page, { home: homePage, shop: shopPage, cart: cartPage, contact: contactPage, checkout: checkoutPage }));
+  },
+
+  cartWith: async ({ homePage, shopPage, cartPage }, use) => {
+    let cartPopulated = false;
+
+    await use(async (items: CartContents) => {
+      logger.info(`Preparing cart: ${JSON.stringify(items)}`);
+      await homePage.navigateToHome();
+      await homePage.navigateToShop();
+      cartPopulated = true;
+
+      for (const [productName, quantity] of Object.entries(items)) {
+        if (!await shopPage.buyProduct(productName, quantity)) {
+          throw new Error(`Could not add ${quantity} x ${productName} to the cart`);
+        }
+      }
+
+      await homePage.navigateToCart();
+      return cartPage;
+    });
+
+    if (cartPopulated) {
+      logger.info('Clearing cart prepared by fixture');
+      await cartPage.clearSessionState();
+    }
+  },
+
+  contactPageWithErrors: async ({ homePage, contactPage }, use) => {
+    await homePage.navigateToHome();
+    await homePage.navigateToContact();
+    await contactPage.submitForm();
+    await contactPage.waitForSubmissionOutcome();
+
+    await use(contactPage);
+
+    logger.info('Clearing contact form state prepared by fixture');
+    await contactPage.clearSessionState();
+  }
+});
@@ -0,0 +1,17 @@
+import { resetLogFile } from './utils/logger';
+import { runCache } from './utils/runCache';
+import { environment } from './config/environment';
+import { networkMode, harDirectory } from './config/network';
+import { assertRecordingsExist } from './utils/harRecordings';
+
+/**
+ * Start the run with an empty log file and nothing shared from the previous run.
+ * An offline run without any recordings for the profile stops here with one error.
+ */
+export default async function globalSetup(): Promise<void> {
+  resetLogFile();
+  runCache.clear();
+  if (networkMode === 'replay') {
+    assertRecordingsExist(harDirectory, environment.name);
+  }
+}
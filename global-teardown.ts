@@ -0,0 +1,11 @@
+import { networkMode, harDirectory, harRecordingDirectory } from './config/network';
+import { mergeRecordings } from './utils/harRecordings';
+
+/**
+ * In record mode, merge the per-test recordings into one HAR file per spec
+ */
+export default async function globalTeardown(): Promise<void> {
+  if (networkMode === 'record') {
+    mergeRecordings(harRecordingDirectory, harDirectory);
+  }
+}
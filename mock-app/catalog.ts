@@ -0,0 +1,24 @@
+/**
+ * Product catalog served by the stand-in app.
+ * Mirrors the ids, titles and prices of the public Jupiter Toys shop.
+ */
+export const mockCatalog: MockProduct[] = [
+  { id: 1, title: 'Teddy Bear', price: 12.99, image: 'teddy-bear' },
+  { id: 2, title: 'Stuffed Frog', price: 10.99, image: 'stuffed-frog' },
+  { id: 3, title: 'Handmade Doll', price: 10.99, image: 'handmade-doll' },
+  { id: 4, title: 'Fluffy Bunny', price: 9.99, image: 'fluffy-bunny' },
+  { id: 5, title: 'Smiley Bear', price: 14.99, image: 'smiley-bear' },
+  { id: 6, title: 'Funny Cow', price: 10.99, image: 'funny-cow' },
+  { id: 7, title: 'Valentine Bear', price: 14.99, image: 'valentine-bear' },
+  { id: 8, title: 'Smiley Face', price: 9.99, image: 'smiley-face' }
+];
+
+/**
+ * Interface for a product served by the stand-in app
+ */
+export interface MockProduct {
+  id: number;
+  title: string;
+  price: number;
+  image: string;
+}
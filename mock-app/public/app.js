@@ -0,0 +1,691 @@
+/*
+ * Stand-in for the Jupiter Toys single page app.
+ * Renders the home, shop, cart, checkout and contact views and the login modal with the same DOM contract
+ * the page objects in /pages rely on. The cart lives in localStorage so it
+ * survives reloads within a browser context, like the real app.
+ * Any username can log in with the password "letmein".
+ */
+(function () {
+  'use strict';
+
+  var CART_KEY = 'jupiter-cart';
+  var USER_KEY = 'jupiter-user';
+  var LOGIN_PASSWORD = 'letmein';
+  var SEND_DELAY_MS = 1500;
+
+  var view = document.getElementById('view');
+  var products = [];
+  var contactState = { submitted: false, values: {} };
+  var checkoutState = { submitted: false, values: {} };
+
+  var contactFields = [
+    { name: 'forename', label: 'Forename', required: true, type: 'text' },
+    { name: 'surname', label: 'Surname', required: false, type: 'text' },
+    { name: 'email', label: 'Email', required: true, type: 'email' },
+    { name: 'telephone', label: 'Telephone', required: false, type: 'tel' },
+    { name: 'message', label: 'Message', required: true, type: 'textarea' }
+  ];
+
+  var checkoutFields = [
+    { name: 'forename', label: 'Forename', required: true, type: 'text' },
+    { name: 'surname', label: 'Surname', required: true, type: 'text' },
+    { name: 'email', label: 'Email', required: true, type: 'email' },
+    { name: 'address', label: 'Address', required: true, type: 'textarea' },
+    { name: 'cardType', label: 'Card Type', required: true, type: 'select', options: ['Visa', 'Mastercard', 'American Express'] },
+    { name: 'card', label: 'Card Number', required: true, type: 'text' }
+  ];
+
+  function escapeHtml(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  function formatPrice(value) {
+    return '$' + value.toFixed(2);
+  }
+
+  function findProduct(id) {
+    return products.filter(function (product) { return product.id === id; })[0];
+  }
+
+  // ---- Cart state ----
+
+  function readCart() {
+    try {
+      return JSON.parse(localStorage.getItem(CART_KEY)) || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  function writeCart(cart) {
+    localStorage.setItem(CART_KEY, JSON.stringify(cart));
+    renderCartCount();
+  }
+
+  function cartCount() {
+    var cart = readCart();
+    return Object.keys(cart).reduce(function (sum, id) { return sum + cart[id]; }, 0);
+  }
+
+  function renderCartCount() {
+    var count = document.querySelector('.cart-count');
+    if (count) {
+      count.textContent = String(cartCount());
+    }
+  }
+
+  function addToCart(id) {
+    var cart = readCart();
+    cart[id] = (cart[id] || 0) + 1;
+    writeCart(cart);
+  }
+
+  function setCartQuantity(id, quantity) {
+    var cart = readCart();
+    if (quantity > 0) {
+      cart[id] = quantity;
+    } else {
+      delete cart[id];
+    }
+    writeCart(cart);
+  }
+
+  function lineSubtotal(product, quantity) {
+    return Math.round(product.price * 100) * quantity / 100;
+  }
+
+  // ---- Session ----
+
+  function currentUser() {
+    return localStorage.getItem(USER_KEY);
+  }
+
+  function renderSession() {
+    var user = currentUser();
+    document.querySelector('#nav-user .user').textContent = user || '';
+    document.getElementById('nav-user').style.display = user ? '' : 'none';
+    document.getElementById('nav-logout').style.display = user ? '' : 'none';
+    document.getElementById('nav-login').style.display = user ? 'none' : '';
+  }
+
+  function showLoginModal() {
+    var backdrop = document.createElement('div');
+    backdrop.className = 'modal-backdrop';
+    var modal = document.createElement('div');
+    modal.className = 'popup modal login-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.innerHTML =
+      '<div class="modal-header"><h1>Login</h1></div>' +
+      '<form name="login" class="modal-body" novalidate>' +
+      '  <div id="login-error" class="alert alert-error" style="display: none"></div>' +
+      '  <div class="control-group" id="loginUserName-group">' +
+      '    <label for="loginUserName">Username</label>' +
+      '    <input id="loginUserName" name="username" type="text">' +
+      '    <span class="help-inline" id="loginUserName-err" style="display: none">Username is required</span>' +
+      '  </div>' +
+      '  <div class="control-group" id="loginPassword-group">' +
+      '    <label for="loginPassword">Password</label>' +
+      '    <input id="loginPassword" name="password" type="password">' +
+      '    <span class="help-inline" id="loginPassword-err" style="display: none">Password is required</span>' +
+      '  </div>' +
+      '  <div class="modal-footer">' +
+      '    <button class="btn btn-primary" type="submit">Login</button>' +
+      '    <a class="btn btn-cancel" href="">Cancel</a>' +
+      '  </div>' +
+      '</form>';
+    document.body.appendChild(backdrop);
+    document.body.appendChild(modal);
+
+    function close() {
+      backdrop.remove();
+      modal.remove();
+    }
+
+    modal.querySelector('.btn-cancel').addEventListener('click', function (event) {
+      event.preventDefault();
+      close();
+    });
+
+    modal.querySelector('form').addEventListener('submit', function (event) {
+      event.preventDefault();
+      var username = modal.querySelector('#loginUserName').value.trim();
+      var password = modal.querySelector('#loginPassword').value;
+      var loginError = modal.querySelector('#login-error');
+
+      modal.querySelector('#loginUserName-err').style.display = username ? 'none' : '';
+      modal.querySelector('#loginPassword-err').style.display = password ? 'none' : '';
+      loginError.style.display = 'none';
+      if (!username || !password) {
+        return;
+      }
+
+      if (password !== LOGIN_PASSWORD) {
+        loginError.textContent = 'Your login details are incorrect';
+        loginError.style.display = '';
+        return;
+      }
+
+      localStorage.setItem(USER_KEY, username);
+      close();
+      renderSession();
+    });
+
+    modal.querySelector('#loginUserName').focus();
+  }
+
+  // ---- Views ----
+
+  function renderHome() {
+    view.innerHTML =
+      '<div class="hero-unit">' +
+      '  <h1>Welcome to Jupiter Toys</h1>' +
+      '  <p>Toys for all ages, delivered to your door.</p>' +
+      '  <a class="btn btn-success btn-large" href="#/shop">Start Shopping &raquo;</a>' +
+      '</div>';
+  }
+
+  function renderShop() {
+    var items = products.map(function (product) {
+      return (
+        '<li class="product" id="product-' + product.id + '">' +
+        '  <div>' +
+        '    <h4 class="product-title">' + escapeHtml(product.title) + '</h4>' +
+        '    <img src="/images/' + product.image + '.svg" alt="' + escapeHtml(product.title) + '">' +
+        '    <p>' +
+        '      <span class="product-price">' + formatPrice(product.price) + '</span>' +
+        '      <a class="btn btn-success" href="" data-product-id="' + product.id + '">Buy</a>' +
+        '    </p>' +
+        '  </div>' +
+        '</li>'
+      );
+    });
+
+    view.innerHTML = '<ul class="products">' + items.join('') + '</ul>';
+  }
+
+  function renderCart() {
+    var cart = readCart();
+    var ids = Object.keys(cart).map(Number).filter(function (id) { return cart[id] > 0 && findProduct(id); });
+
+    if (ids.length === 0) {
+      view.innerHTML =
+        '<p class="cart-msg">Your cart is empty - would you like to <a href="#/shop">go shopping?</a></p>';
+      return;
+    }
+
+    var rows = ids.map(function (id) {
+      var product = findProduct(id);
+      var quantity = cart[id];
+      return (
+        '<tr class="cart-item" data-product-id="' + id + '">' +
+        '  <td class="product-title">' + escapeHtml(product.title) + '</td>' +
+        '  <td class="product-price">' + formatPrice(product.price) + '</td>' +
+        '  <td><input class="input-mini" type="number" min="0" name="quantity" value="' + quantity + '"' +
+        ' aria-label="Quantity of ' + escapeHtml(product.title) + '"></td>' +
+        '  <td class="line-price">' + formatPrice(lineSubtotal(product, quantity)) + '</td>' +
+        '  <td><a class="remove-item" href="" aria-label="Remove ' + escapeHtml(product.title) + '">&times;</a></td>' +
+        '</tr>'
+      );
+    });
+
+    view.innerHTML =
+      '<table class="table table-striped cart-items">' +
+      '  <thead><tr><th>Item</th><th>Price</th><th>Quantity</th><th>Subtotal</th><th>Actions</th></tr></thead>' +
+      '  <tbody>' + rows.join('') + '</tbody>' +
+      '  <tfoot>' +
+      '    <tr><td colspan="5"><strong class="total"></strong></td></tr>' +
+      '    <tr><td colspan="5">' +
+      '      <a class="btn btn-danger" href="">Empty Cart</a>' +
+      '      <a class="btn btn-checkout btn-success" href="#/checkout">Check Out</a>' +
+      '    </td></tr>' +
+      '  </tfoot>' +
+      '</table>';
+    renderCartTotals();
+  }
+
+  // Updates line subtotals and the total in place, so a quantity input keeps focus while typing
+  function renderCartTotals() {
+    var cart = readCart();
+    var total = 0;
+
+    Array.prototype.forEach.call(view.querySelectorAll('.cart-item'), function (row) {
+      var id = Number(row.getAttribute('data-product-id'));
+      var subtotal = lineSubtotal(findProduct(id), cart[id] || 0);
+      row.querySelector('.line-price').textContent = formatPrice(subtotal);
+      total += subtotal;
+    });
+
+    var totalElement = view.querySelector('.total');
+    if (totalElement) {
+      totalElement.textContent = 'Total: ' + total.toFixed(2);
+    }
+  }
+
+  function onQuantityInput(input) {
+    var id = Number(input.closest('.cart-item').getAttribute('data-product-id'));
+    var value = input.value.trim();
+
+    // Negative, empty or non-numeric quantities are ignored until the field is left
+    if (!/^\d+$/.test(value)) {
+      return;
+    }
+
+    setCartQuantity(id, Number(value));
+    if (Number(value) === 0) {
+      renderCart();
+    } else {
+      renderCartTotals();
+    }
+  }
+
+  function onQuantityChange(input) {
+    var id = Number(input.closest('.cart-item').getAttribute('data-product-id'));
+    if (!/^\d+$/.test(input.value.trim())) {
+      input.value = String(readCart()[id] || 0);
+    }
+  }
+
+  function showConfirmModal(message, onConfirm) {
+    var backdrop = document.createElement('div');
+    backdrop.className = 'modal-backdrop';
+    var modal = document.createElement('div');
+    modal.className = 'popup modal';
+    modal.setAttribute('role', 'dialog');
+    modal.innerHTML =
+      '<div class="modal-body"><p>' + escapeHtml(message) + '</p></div>' +
+      '<div class="modal-footer">' +
+      '  <a class="btn btn-success" href="">Yes</a>' +
+      '  <a class="btn btn-cancel" href="">No</a>' +
+      '</div>';
+    document.body.appendChild(backdrop);
+    document.body.appendChild(modal);
+
+    modal.addEventListener('click', function (event) {
+      var button = event.target.closest('.btn');
+      if (!button) {
+        return;
+      }
+      event.preventDefault();
+      backdrop.remove();
+      modal.remove();
+      if (button.classList.contains('btn-success')) {
+        onConfirm();
+      }
+    });
+  }
+
+  function validateContact(values) {
+    var errors = {};
+    if (!values.forename || !values.forename.trim()) {
+      errors.forename = 'Forename is required';
+    }
+    if (!values.email || !values.email.trim()) {
+      errors.email = 'Email is required';
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email.trim())) {
+      errors.email = 'Please enter a valid email';
+    }
+    if (values.telephone && !/^[+0-9 ()-]+$/.test(values.telephone.trim())) {
+      errors.telephone = 'Please enter a valid telephone number';
+    }
+    if (!values.message || !values.message.trim()) {
+      errors.message = 'Message is required';
+    }
+    return errors;
+  }
+
+  function formGroupsHtml(fields) {
+    return fields.map(function (field) {
+      var input;
+      if (field.type === 'textarea') {
+        input = '<textarea id="' + field.name + '" name="' + field.name + '" rows="5"></textarea>';
+      } else if (field.type === 'select') {
+        input = '<select id="' + field.name + '" name="' + field.name + '"><option value="">-- Select --</option>' +
+          field.options.map(function (option) {
+            return '<option value="' + escapeHtml(option) + '">' + escapeHtml(option) + '</option>';
+          }).join('') + '</select>';
+      } else {
+        input = '<input id="' + field.name + '" name="' + field.name + '" type="' + field.type + '">';
+      }
+      return (
+        '<div class="control-group" id="' + field.name + '-group">' +
+        '  <label for="' + field.name + '">' + field.label + (field.required ? ' <span class="req">*</span>' : '') + '</label>' +
+        '  ' + input +
+        '  <span class="help-inline" id="' + field.name + '-err" style="display: none"></span>' +
+        '</div>'
+      );
+    }).join('');
+  }
+
+  function showFieldErrors(fields, errors) {
+    fields.forEach(function (field) {
+      var group = document.getElementById(field.name + '-group');
+      var error = document.getElementById(field.name + '-err');
+      if (!group || !error) {
+        return;
+      }
+      group.classList.toggle('error', Boolean(errors[field.name]));
+      error.textContent = errors[field.name] || '';
+      error.style.display = errors[field.name] ? '' : 'none';
+    });
+  }
+
+  function renderContactErrors() {
+    var errors = contactState.submitted ? validateContact(contactState.values) : {};
+    var hasErrors = Object.keys(errors).length > 0;
+
+    showFieldErrors(contactFields, errors);
+
+    var header = document.getElementById('header-message');
+    if (header) {
+      header.className = hasErrors ? 'alert alert-error' : 'alert alert-info';
+      header.textContent = hasErrors
+        ? "We welcome your feedback - but we won't get it unless you complete the form correctly."
+        : 'We welcome your feedback - tell it how it is.';
+    }
+
+    return hasErrors;
+  }
+
+  function renderContact() {
+    contactState = { submitted: false, values: {} };
+
+    view.innerHTML =
+      '<div id="header-message" class="alert alert-info">We welcome your feedback - tell it how it is.</div>' +
+      '<form name="form" novalidate>' + formGroupsHtml(contactFields) +
+      '  <a class="btn-contact btn btn-primary" href="">Submit</a>' +
+      '</form>';
+  }
+
+  function showProgressModal(title) {
+    var backdrop = document.createElement('div');
+    backdrop.className = 'modal-backdrop';
+    var modal = document.createElement('div');
+    modal.className = 'popup modal';
+    modal.innerHTML =
+      '<div class="modal-header"><h1>' + escapeHtml(title) + '</h1></div>' +
+      '<div class="modal-body"><div class="progress progress-info wait"><div class="bar"></div></div></div>';
+    document.body.appendChild(backdrop);
+    document.body.appendChild(modal);
+
+    return function hide() {
+      backdrop.remove();
+      modal.remove();
+    };
+  }
+
+  function submitContact() {
+    contactState.submitted = true;
+    var previousError = document.getElementById('submit-error');
+    if (previousError) {
+      previousError.remove();
+    }
+    if (renderContactErrors()) {
+      return;
+    }
+
+    var values = contactState.values;
+    var forename = values.forename.trim();
+    var hideModal = showProgressModal('Sending Feedback');
+    var minimumDelay = new Promise(function (resolve) {
+      setTimeout(resolve, SEND_DELAY_MS);
+    });
+    var request = fetch('/api/contact', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        forename: values.forename || '',
+        surname: values.surname || '',
+        email: values.email || '',
+        telephone: values.telephone || '',
+        message: values.message || ''
+      })
+    }).then(function (response) {
+      if (!response.ok) {
+        throw new Error('Feedback failed with status ' + response.status);
+      }
+    });
+
+    Promise.all([request, minimumDelay])
+      .then(function () {
+        hideModal();
+        view.innerHTML =
+          '<div class="alert alert-success"><strong class="ng-binding">Thanks ' + escapeHtml(forename) +
+          '</strong>, we appreciate your feedback.</div>' +
+          '<a class="btn" href="#/contact">&laquo; Back</a>';
+      })
+      .catch(function () {
+        hideModal();
+        var form = view.querySelector('form[name="form"]');
+        var alert = document.createElement('div');
+        alert.id = 'submit-error';
+        alert.className = 'alert alert-error';
+        alert.textContent = 'Sorry, we could not send your feedback. Please try again.';
+        form.parentNode.insertBefore(alert, form);
+      });
+  }
+
+  function cartTotal() {
+    var cart = readCart();
+    return Object.keys(cart).reduce(function (sum, id) {
+      var product = findProduct(Number(id));
+      return product ? sum + lineSubtotal(product, cart[id]) : sum;
+    }, 0);
+  }
+
+  function validateCheckout(values) {
+    var errors = {};
+    checkoutFields.forEach(function (field) {
+      if (!values[field.name] || !values[field.name].trim()) {
+        errors[field.name] = field.label.charAt(0) + field.label.slice(1).toLowerCase() + ' is required';
+      }
+    });
+    if (!errors.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email.trim())) {
+      errors.email = 'Please enter a valid email';
+    }
+    if (!errors.card && !/^\d{16}$/.test(values.card.replace(/\s/g, ''))) {
+      errors.card = 'Card number must be 16 digits';
+    }
+    return errors;
+  }
+
+  function renderCheckoutErrors() {
+    var errors = checkoutState.submitted ? validateCheckout(checkoutState.values) : {};
+    showFieldErrors(checkoutFields, errors);
+    return Object.keys(errors).length > 0;
+  }
+
+  function renderCheckout() {
+    checkoutState = { submitted: false, values: {} };
+
+    if (cartCount() === 0) {
+      view.innerHTML =
+        '<p class="cart-msg">Your cart is empty - would you like to <a href="#/shop">go shopping?</a></p>';
+      return;
+    }
+
+    view.innerHTML =
+      '<h2>Delivery &amp; Payment Details</h2>' +
+      '<p class="order-total">Order total: ' + formatPrice(cartTotal()) + '</p>' +
+      '<form name="checkout" novalidate>' + formGroupsHtml(checkoutFields) +
+      '  <button id="checkout-submit-btn" class="btn btn-primary" type="submit">Submit Order</button>' +
+      '</form>';
+  }
+
+  function submitCheckout() {
+    checkoutState.submitted = true;
+    if (renderCheckoutErrors()) {
+      return;
+    }
+
+    var values = checkoutState.values;
+    var hideModal = showProgressModal('Processing Order');
+    fetch('/api/orders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        forename: values.forename.trim(),
+        surname: values.surname.trim(),
+        email: values.email.trim(),
+        address: values.address.trim(),
+        cardType: values.cardType,
+        cardLast4: values.card.replace(/\s/g, '').slice(-4),
+        items: readCart()
+      })
+    })
+      .then(function (response) {
+        if (!response.ok) {
+          throw new Error('Order failed with status ' + response.status);
+        }
+        return response.json();
+      })
+      .then(function (order) {
+        hideModal();
+        writeCart({});
+        view.innerHTML =
+          '<div class="alert alert-success">Thanks ' + escapeHtml(values.forename.trim()) +
+          ', your order has been accepted. Your order number is <strong class="order-number">' +
+          escapeHtml(order.orderNumber) + '</strong>.</div>' +
+          '<a class="btn" href="#/shop">Continue Shopping &raquo;</a>';
+      })
+      .catch(function () {
+        hideModal();
+        var form = view.querySelector('form[name="checkout"]');
+        var alert = document.createElement('div');
+        alert.className = 'alert alert-error';
+        alert.textContent = 'Sorry, we could not place your order. Please try again.';
+        form.parentNode.insertBefore(alert, form);
+      });
+  }
+
+  // ---- Routing ----
+
+  var routes = {
+    '': renderHome,
+    shop: renderShop,
+    cart: renderCart,
+    contact: renderContact,
+    checkout: renderCheckout
+  };
+
+  function currentRoute() {
+    var route = window.location.hash.replace(/^#\/?/, '').split('?')[0];
+    return Object.prototype.hasOwnProperty.call(routes, route) ? route : '';
+  }
+
+  function render() {
+    var route = currentRoute();
+    routes[route]();
+
+    ['home', 'shop', 'contact', 'cart'].forEach(function (name) {
+      var item = document.getElementById('nav-' + name);
+      item.classList.toggle('active', name === (route || 'home'));
+    });
+    renderCartCount();
+    renderSession();
+  }
+
+  function setNavbarExpanded(expanded) {
+    document.querySelector('.nav-collapse').classList.toggle('in', expanded);
+    document.querySelector('.btn-navbar').setAttribute('aria-expanded', String(expanded));
+  }
+
+  // ---- Event wiring ----
+
+  view.addEventListener('click', function (event) {
+    var buy = event.target.closest('.product .btn-success');
+    if (buy) {
+      event.preventDefault();
+      addToCart(Number(buy.getAttribute('data-product-id')));
+      return;
+    }
+
+    var remove = event.target.closest('.remove-item');
+    if (remove) {
+      event.preventDefault();
+      setCartQuantity(Number(remove.closest('.cart-item').getAttribute('data-product-id')), 0);
+      renderCart();
+      return;
+    }
+
+    if (event.target.closest('.cart-items .btn-danger')) {
+      event.preventDefault();
+      showConfirmModal('Are you sure you would like to empty the cart?', function () {
+        writeCart({});
+        renderCart();
+      });
+      return;
+    }
+
+    if (event.target.closest('.btn-contact')) {
+      event.preventDefault();
+      submitContact();
+    }
+  });
+
+  view.addEventListener('input', function (event) {
+    var field = event.target;
+    if (field.closest('.cart-item') && field.name === 'quantity') {
+      onQuantityInput(field);
+      return;
+    }
+    if (field.closest('form[name="form"]') && field.name) {
+      contactState.values[field.name] = field.value;
+      renderContactErrors();
+    }
+    if (field.closest('form[name="checkout"]') && field.name) {
+      checkoutState.values[field.name] = field.value;
+      renderCheckoutErrors();
+    }
+  });
+
+  view.addEventListener('submit', function (event) {
+    if (event.target.name === 'checkout') {
+      event.preventDefault();
+      submitCheckout();
+    }
+  });
+
+  view.addEventListener('change', function (event) {
+    var field = event.target;
+    if (field.closest('.cart-item') && field.name === 'quantity') {
+      onQuantityChange(field);
+    }
+    // Selects only fire change in some browsers
+    if (field.closest('form[name="checkout"]') && field.tagName === 'SELECT') {
+      checkoutState.values[field.name] = field.value;
+      renderCheckoutErrors();
+    }
+  });
+
+  document.getElementById('nav-login').addEventListener('click', function (event) {
+    event.preventDefault();
+    showLoginModal();
+  });
+
+  document.getElementById('nav-logout').addEventListener('click', function (event) {
+    event.preventDefault();
+    localStorage.removeItem(USER_KEY);
+    renderSession();
+  });
+
+  document.querySelector('.btn-navbar').addEventListener('click', function () {
+    setNavbarExpanded(!document.querySelector('.nav-collapse').classList.contains('in'));
+  });
+
+  // Following a link collapses the navbar again on narrow viewports
+  window.addEventListener('hashchange', function () {
+    setNavbarExpanded(false);
+    render();
+  });
+
+  fetch('/api/products')
+    .then(function (response) { return response.json(); })
+    .then(function (catalog) {
+      products = catalog;
+      render();
+    });
+})();
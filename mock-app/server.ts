@@ -0,0 +1,217 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { readFile } from 'fs/promises';
+import { extname, join, normalize } from 'path';
+import { mockCatalog } from './catalog';
+import { mockAppPort } from '../config/profiles';
+import { logger } from '../utils/logger';
+
+const publicDir = join(__dirname, 'public');
+
+let nextOrderNumber = 1001;
+
+const contentTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json; charset=utf-8'
+};
+
+/**
+ * Error thrown when a request body is not a JSON object; answered with 400 rather than 500
+ */
+class MalformedRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedRequestError';
+  }
+}
+
+/**
+ * Send a JSON response
+ * @param res - Server response
+ * @param status - HTTP status code
+ * @param body - Value to serialise as the response body
+ */
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': contentTypes['.json'], 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Read and parse a JSON request body
+ * @param req - Incoming request
+ * @returns Promise resolving to the parsed body
+ * @throws MalformedRequestError if the body is not a JSON object
+ */
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch (error) {
+    throw new MalformedRequestError(`Request body is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new MalformedRequestError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+};
+
+/**
+ * Read the cart of an order, product id to quantity, as the shop's readCart() sends it
+ * @param order - Parsed order body
+ * @returns The cart; empty when the order has none
+ * @throws MalformedRequestError if the cart is not an object of positive whole quantities
+ */
+const readOrderItems = (order: Record<string, unknown>): Record<string, number> => {
+  const items = order.items ?? {};
+  if (typeof items !== 'object' || items === null || Array.isArray(items)) {
+    throw new MalformedRequestError('Order items must be an object of product id to quantity');
+  }
+  for (const [id, quantity] of Object.entries(items)) {
+    if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+      throw new MalformedRequestError(`Order quantity for product ${id} must be a positive whole number, got ${JSON.stringify(quantity)}`);
+    }
+  }
+  return items as Record<string, number>;
+};
+
+/**
+ * Serve a file from the public directory.
+ * The app is hash-routed, so every unknown path falls back to index.html.
+ * @param res - Server response
+ * @param urlPath - Requested path
+ */
+const serveStatic = async (res: ServerResponse, urlPath: string): Promise<void> => {
+  const relativePath = urlPath === '/' ? 'index.html' : normalize(urlPath).replace(/^([/\\])+/, '');
+  const filePath = join(publicDir, relativePath);
+
+  if (!filePath.startsWith(publicDir)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+
+  try {
+    const body = await readFile(filePath);
+    res.writeHead(200, { 'Content-Type': contentTypes[extname(filePath)] || 'application/octet-stream' });
+    res.end(body);
+  } catch (error) {
+    const body = await readFile(join(publicDir, 'index.html'));
+    res.writeHead(200, { 'Content-Type': contentTypes['.html'] });
+    res.end(body);
+  }
+};
+
+/**
+ * Render a placeholder product image
+ * @param name - Image name, used as the caption
+ * @returns SVG markup
+ */
+const renderPlaceholderImage = (name: string): string => {
+  const caption = name.replace(/-/g, ' ');
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="120" viewBox="0 0 120 120">' +
+    '<rect width="120" height="120" fill="#eee"/>' +
+    `<text x="60" y="64" font-size="12" text-anchor="middle" fill="#999">${caption}</text>` +
+    '</svg>'
+  );
+};
+
+/**
+ * Route a request to the API or the static files
+ * @param req - Incoming request
+ * @param res - Server response
+ */
+const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, { status: 'ok' });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/products') {
+    sendJson(res, 200, mockCatalog);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/orders') {
+    const order = await readJsonBody(req);
+    const items = readOrderItems(order);
+    if (Object.keys(items).length === 0) {
+      sendJson(res, 422, { error: 'Order has no items' });
+      return;
+    }
+    const orderNumber = `JT-${nextOrderNumber++}`;
+    logger.info(`Stand-in app accepted order ${orderNumber}`);
+    sendJson(res, 201, { orderNumber });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/contact') {
+    const feedback = await readJsonBody(req);
+    const missing = ['forename', 'email', 'message'].filter(field => !String(feedback[field] || '').trim());
+    if (missing.length > 0) {
+      sendJson(res, 422, { error: `Missing ${missing.join(', ')}` });
+      return;
+    }
+    logger.info(`Stand-in app received feedback from ${feedback.forename}`);
+    sendJson(res, 201, { received: true });
+    return;
+  }
+
+  const image = url.pathname.match(/^\/images\/([a-z-]+)\.svg$/);
+  if (req.method === 'GET' && image) {
+    res.writeHead(200, { 'Content-Type': contentTypes['.svg'] });
+    res.end(renderPlaceholderImage(image[1]));
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+    return;
+  }
+
+  await serveStatic(res, url.pathname);
+};
+
+/**
+ * Start the stand-in Jupiter Toys app
+ * @param port - Port to listen on
+ * @returns Promise resolving to the listening server
+ */
+export const startMockApp = (port: number = mockAppPort): Promise<Server> => {
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      // Bad client input is the client's error, so tests can tell it from a server fault
+      if (error instanceof MalformedRequestError) {
+        logger.warn(`Stand-in app rejected ${req.method} ${req.url}: ${error.message}`);
+        sendJson(res, 400, { error: error.message });
+        return;
+      }
+      logger.error(`Stand-in app failed to handle ${req.method} ${req.url}: ${error}`);
+      sendJson(res, 500, { error: 'Internal server error' });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      logger.info(`Stand-in Jupiter Toys app listening on http://localhost:${port}`);
+      resolve(server);
+    });
+  });
+};
+
+if (require.main === module) {
+  startMockApp().catch(error => {
+    logger.error(`Could not start stand-in app: ${error}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Fields of the contact form, in the order they appear on the page
+ */
+export const contactFields = ['forename', 'surname', 'email', 'telephone', 'message'] as const;
+
+export type ContactField = typeof contactFields[number];
+
+/**
+ * Values for every contact form field
+ */
+export type ContactFormData = Record<ContactField, string>;
+
+/**
+ * How each contact form field is located and validated
+ */
+export const contactFormSchema: Record<ContactField, FieldDefinition> = {
+  forename: {
+    label: 'Forename',
+    selector: '#forename',
+    errorSelector: '#forename-err',
+    required: true,
+    messages: { required: 'Forename is required' }
+  },
+  surname: {
+    label: 'Surname',
+    selector: '#surname',
+    errorSelector: '#surname-err',
+    required: false,
+    messages: {}
+  },
+  email: {
+    label: 'Email',
+    selector: '#email',
+    errorSelector: '#email-err',
+    required: true,
+    messages: { required: 'Email is required', invalid: 'Please enter a valid email' }
+  },
+  telephone: {
+    label: 'Telephone',
+    selector: '#telephone',
+    errorSelector: '#telephone-err',
+    required: false,
+    messages: { invalid: 'Please enter a valid telephone number' }
+  },
+  message: {
+    label: 'Message',
+    selector: '#message',
+    errorSelector: '#message-err',
+    required: true,
+    messages: { required: 'Message is required' }
+  }
+};
+
+/**
+ * Fields that must be filled for the form to submit
+ */
+export const requiredContactFields: ContactField[] = contactFields.filter(field => contactFormSchema[field].required);
+
+/**
+ * Interface for a form field definition
+ */
+export interface FieldDefinition {
+  label: string;
+  selector: string;
+  errorSelector: string;
+  required: boolean;
+  messages: FieldMessages;
+}
+
+/**
+ * Interface for the validation messages a field can show
+ */
+export interface FieldMessages {
+  required?: string;
+  invalid?: string;
+}
+
+/**
+ * Interface for the current state of a form field
+ */
+export interface FieldState {
+  value: string;
+  errorVisible: boolean;
+  errorText: string | null;
+}
+
+/**
+ * State of every contact form field
+ */
+export type ContactFormState = Record<ContactField, FieldState>;
@@ -0,0 +1,164 @@
+/**
+ * Error thrown when text is not a money amount
+ */
+export class MoneyParseError extends Error {
+  constructor(readonly text: string) {
+    super(`Not a money amount: "${text}"`);
+    this.name = 'MoneyParseError';
+  }
+}
+
+// Optional minus and dollar sign, whole dollars (optionally with thousands separators), up to two decimals
+const amountPattern = /^(-)?\$?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?$/;
+
+/**
+ * A dollar amount held as integer cents, so adding and multiplying prices is exact
+ */
+export class Money {
+  /**
+   * Constructor for the Money class; use the static factories instead
+   * @param cents - Amount in cents
+   */
+  private constructor(readonly cents: number) {}
+
+  /**
+   * Create an amount from a whole number of cents
+   * @param cents - Amount in cents
+   * @returns The amount
+   */
+  static fromCents(cents: number): Money {
+    if (!Number.isSafeInteger(cents)) {
+      throw new RangeError(`Money needs a whole number of cents, got ${cents}`);
+    }
+    return new Money(cents);
+  }
+
+  /**
+   * Create an amount from a dollar value with at most two decimals, e.g. a catalog price
+   * @param dollars - Amount in dollars
+   * @returns The amount
+   */
+  static fromDollars(dollars: number): Money {
+    const cents = Math.round(dollars * 100);
+    if (!Number.isFinite(dollars) || Math.abs(cents - dollars * 100) > 1e-6) {
+      throw new RangeError(`Not a dollar amount with at most two decimals: ${dollars}`);
+    }
+    return new Money(cents);
+  }
+
+  /**
+   * Parse a displayed amount such as "$12.99", "12.9" or "1,024.00".
+   * Anything else - empty text, stray characters, more than two decimals - is rejected.
+   * @param text - Amount as displayed
+   * @returns The amount
+   */
+  static parse(text: string): Money {
+    const match = amountPattern.exec(text.trim());
+    if (!match) {
+      throw new MoneyParseError(text);
+    }
+
+    const [, minus, dollars, decimals = ''] = match;
+    const cents = Number(dollars.replace(/,/g, '')) * 100 + Number(decimals.padEnd(2, '0'));
+    return Money.fromCents(minus && cents !== 0 ? -cents : cents);
+  }
+
+  /**
+   * Zero dollars
+   * @returns The amount
+   */
+  static zero(): Money {
+    return new Money(0);
+  }
+
+  /**
+   * Add up amounts
+   * @param amounts - Amounts to add
+   * @returns The sum, zero for no amounts
+   */
+  static sum(amounts: Money[]): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero());
+  }
+
+  /**
+   * Add an amount
+   * @param other - Amount to add
+   * @returns The sum
+   */
+  add(other: Money): Money {
+    return Money.fromCents(this.cents + other.cents);
+  }
+
+  /**
+   * Subtract an amount
+   * @param other - Amount to subtract
+   * @returns The difference
+   */
+  subtract(other: Money): Money {
+    return Money.fromCents(this.cents - other.cents);
+  }
+
+  /**
+   * Multiply by a whole quantity, e.g. unit price x quantity
+   * @param quantity - Whole quantity
+   * @returns The product
+   */
+  multiply(quantity: number): Money {
+    if (!Number.isInteger(quantity)) {
+      throw new RangeError(`Money can only be multiplied by a whole quantity, got ${quantity}`);
+    }
+    return Money.fromCents(this.cents * quantity);
+  }
+
+  /**
+   * Check if two amounts are exactly equal
+   * @param other - Amount to compare with
+   * @returns True if both are the same number of cents
+   */
+  equals(other: Money): boolean {
+    return this.cents === other.cents;
+  }
+
+  /**
+   * Compare two amounts, for sorting
+   * @param other - Amount to compare with
+   * @returns Negative if this is less, zero if equal, positive if greater
+   */
+  compare(other: Money): number {
+    return this.cents - other.cents;
+  }
+
+  /**
+   * Convert to a dollar value, e.g. for a catalog price
+   * @returns Amount in dollars
+   */
+  toDollars(): number {
+    return this.cents / 100;
+  }
+
+  /**
+   * Format as dollars, e.g. "$12.99" or "-$0.50"
+   * @returns The formatted amount
+   */
+  format(): string {
+    const sign = this.cents < 0 ? '-' : '';
+    const cents = Math.abs(this.cents);
+    return `${sign}$${Math.floor(cents / 100)}.${String(cents % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Format as dollars, so amounts read naturally in template strings
+   * @returns The formatted amount
+   */
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * Serialize as the formatted amount, e.g. in attachments and logged JSON
+   * @returns The formatted amount
+   */
+  toJSON(): string {
+    return this.format();
+  }
+}
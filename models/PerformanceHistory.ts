@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PerformanceMeasurement } from '../utils/performanceMetrics';
+
+/**
+ * Per-route performance of past runs, for spotting views and actions that are getting slower.
+ * Each run keeps one summary per project, route and action rather than every measurement.
+ */
+export class PerformanceHistory {
+  private runs: PerformanceRun[];
+
+  /**
+   * Constructor for the PerformanceHistory class
+   * @param data - Previously saved history
+   */
+  constructor(data: PerformanceHistoryData = { version: 1, runs: [] }) {
+    this.runs = [...data.runs];
+  }
+
+  /**
+   * Load the history file, or start an empty history if there is none yet
+   * @param file - History file path
+   * @returns The saved history
+   */
+  static load(file: string): PerformanceHistory {
+    if (!fs.existsSync(file)) {
+      return new PerformanceHistory();
+    }
+    return new PerformanceHistory(JSON.parse(fs.readFileSync(file, 'utf-8')) as PerformanceHistoryData);
+  }
+
+  /**
+   * Save the history
+   * @param file - History file path
+   */
+  save(file: string): void {
+    const data: PerformanceHistoryData = { version: 1, runs: this.runs };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+  }
+
+  /**
+   * Summarise a run's measurements and add them, dropping the oldest runs beyond maxRuns
+   * @param id - Run identifier, e.g. its start time
+   * @param measurements - Every measurement of the run, with the project it was taken in
+   * @param maxRuns - Number of runs to keep
+   */
+  recordRun(id: string, measurements: ProjectMeasurement[], maxRuns: number): void {
+    const groups = new Map<string, ProjectMeasurement[]>();
+    for (const entry of measurements) {
+      const key = summaryKey(entry.project, entry.measurement.route, entry.measurement.action);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    const summaries = [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entries]) => summarise(key, entries));
+    this.runs = [...this.runs, { id, summaries }].slice(-maxRuns);
+  }
+
+  /**
+   * Compare the latest run with the run before it and with the average of every earlier run
+   * @returns One trend per project, route and action of the latest run
+   */
+  trends(): PerformanceTrend[] {
+    const latestRun = this.runs[this.runs.length - 1];
+    if (!latestRun) {
+      return [];
+    }
+
+    const earlierRuns = this.runs.slice(0, -1);
+    return latestRun.summaries.map(summary => {
+      const earlier = earlierRuns
+        .map(run => run.summaries.find(candidate => candidate.key === summary.key))
+        .filter((candidate): candidate is RoutePerformanceSummary => candidate !== undefined);
+      const previous = earlier[earlier.length - 1];
+
+      return {
+        summary,
+        runs: earlier.length + 1,
+        previousMedianMs: previous ? previous.medianTimeToReadyMs : null,
+        averageMedianMs: earlier.length > 0
+          ? round(earlier.reduce((total, run) => total + run.medianTimeToReadyMs, 0) / earlier.length)
+          : null
+      };
+    });
+  }
+}
+
+/**
+ * Key of a summary, e.g. `chromium › shop navigation`
+ * @param project - Playwright project name
+ * @param route - Route name
+ * @param action - Kind of measurement
+ * @returns The key
+ */
+const summaryKey = (project: string, route: string, action: string): string => `${project} › ${route} ${action}`;
+
+/**
+ * Round to one decimal place
+ * @param value - Value to round
+ * @returns The rounded value
+ */
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Read a percentile from sorted values, nearest rank
+ * @param sorted - Values in ascending order
+ * @param percent - Percentile, e.g. 95
+ * @returns The percentile value
+ */
+const percentile = (sorted: number[], percent: number): number => {
+  return sorted[Math.max(0, Math.ceil((percent / 100) * sorted.length) - 1)];
+};
+
+/**
+ * Summarise one project's measurements of one route and action
+ * @param key - Summary key
+ * @param entries - The measurements
+ * @returns The summary
+ */
+const summarise = (key: string, entries: ProjectMeasurement[]): RoutePerformanceSummary => {
+  const measurements = entries.map(entry => entry.measurement);
+  const ready = measurements.map(measurement => measurement.timeToReadyMs).sort((a, b) => a - b);
+  const paints = measurements
+    .map(measurement => measurement.firstContentfulPaintMs)
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+  const transfers = measurements.map(measurement => measurement.resources.transferKb + (measurement.navigation?.transferKb ?? 0));
+
+  return {
+    key,
+    project: entries[0].project,
+    route: measurements[0].route,
+    action: measurements[0].action,
+    samples: measurements.length,
+    medianTimeToReadyMs: percentile(ready, 50),
+    p95TimeToReadyMs: percentile(ready, 95),
+    maxTimeToReadyMs: ready[ready.length - 1],
+    medianFirstContentfulPaintMs: paints.length > 0 ? percentile(paints, 50) : null,
+    meanTransferKb: round(transfers.reduce((total, value) => total + value, 0) / transfers.length)
+  };
+};
+
+/**
+ * Format the latest run's per-route performance with its trend
+ * @param trends - Trends of the latest run
+ * @returns Multi-line summary
+ */
+export const formatPerformanceSummary = (trends: PerformanceTrend[]): string => {
+  const change = (current: number, baseline: number | null): string => {
+    if (baseline === null || baseline === 0) {
+      return 'n/a';
+    }
+    const percent = Math.round(((current - baseline) / baseline) * 100);
+    return `${percent > 0 ? '+' : ''}${percent}%`;
+  };
+
+  const lines = [`Performance summary: ${trends.length} route measurement(s), time to ready in ms`];
+  lines.push('', `  ${'median'.padStart(8)} ${'p95'.padStart(8)} ${'max'.padStart(8)} ${'FCP'.padStart(8)}` +
+    `  ${'vs last'.padStart(8)} ${'vs avg'.padStart(8)}  samples  measurement`);
+  for (const trend of trends) {
+    const summary = trend.summary;
+    lines.push(
+      `  ${String(summary.medianTimeToReadyMs).padStart(8)} ${String(summary.p95TimeToReadyMs).padStart(8)}` +
+      ` ${String(summary.maxTimeToReadyMs).padStart(8)} ${String(summary.medianFirstContentfulPaintMs ?? '-').padStart(8)}` +
+      `  ${change(summary.medianTimeToReadyMs, trend.previousMedianMs).padStart(8)}` +
+      ` ${change(summary.medianTimeToReadyMs, trend.averageMedianMs).padStart(8)}` +
+      `  ${String(summary.samples).padStart(7)}  ${summary.key}`
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Interface for a measurement and the project it was taken in
+ */
+export interface ProjectMeasurement {
+  project: string;
+  measurement: PerformanceMeasurement;
+}
+
+/**
+ * Interface for one project's measurements of one route and action in a run
+ */
+export interface RoutePerformanceSummary {
+  key: string;
+  project: string;
+  route: string;
+  action: string;
+  samples: number;
+  medianTimeToReadyMs: number;
+  p95TimeToReadyMs: number;
+  maxTimeToReadyMs: number;
+  // Null when no measurement loaded a new document
+  medianFirstContentfulPaintMs: number | null;
+  meanTransferKb: number;
+}
+
+/**
+ * Interface for a recorded run
+ */
+export interface PerformanceRun {
+  id: string;
+  summaries: RoutePerformanceSummary[];
+}
+
+/**
+ * Interface for the saved history file
+ */
+export interface PerformanceHistoryData {
+  version: 1;
+  runs: PerformanceRun[];
+}
+
+/**
+ * Interface for how a route's latest summary compares with earlier runs
+ */
+export interface PerformanceTrend {
+  summary: RoutePerformanceSummary;
+  runs: number;
+  previousMedianMs: number | null;
+  averageMedianMs: number | null;
+}
@@ -0,0 +1,166 @@
+import { ProductDefinition } from '../config/profiles';
+import { Money } from './Money';
+
+/**
+ * Products as currently listed on the shop page
+ */
+export class ProductCatalog {
+  readonly products: CatalogProduct[];
+
+  /**
+   * Constructor for the ProductCatalog class
+   * @param products - Products scraped from the shop page
+   */
+  constructor(products: CatalogProduct[]) {
+    this.products = products;
+  }
+
+  /**
+   * Find a product by its title
+   * @param title - Product title
+   * @returns The product, or undefined if the shop does not list it
+   */
+  findByTitle(title: string): CatalogProduct | undefined {
+    return this.products.find(product => product.title === title);
+  }
+
+  /**
+   * Find a product by its card id
+   * @param id - Product card id, e.g. "product-2"
+   * @returns The product, or undefined if the shop does not list it
+   */
+  findById(id: string): CatalogProduct | undefined {
+    return this.products.find(product => product.id === id);
+  }
+
+  /**
+   * Compare the catalog against a baseline.
+   * Products are matched by card id, so a renamed product is reported as renamed rather
+   * than as one removal and one addition.
+   * @param baseline - Expected products
+   * @returns Differences between the baseline and this catalog
+   */
+  diff(baseline: ProductDefinition[]): CatalogDrift {
+    const added = this.products.filter(product => !baseline.some(expected => expected.id === product.id));
+    const removed = baseline.filter(expected => !this.findById(expected.id));
+    const renamed: RenamedProduct[] = [];
+    const repriced: RepricedProduct[] = [];
+
+    for (const expected of baseline) {
+      const actual = this.findById(expected.id);
+      if (!actual) {
+        continue;
+      }
+      if (actual.title !== expected.title) {
+        renamed.push({ id: expected.id, expectedTitle: expected.title, actualTitle: actual.title });
+      }
+      if (!Money.fromDollars(actual.price).equals(Money.fromDollars(expected.price))) {
+        repriced.push({ id: expected.id, title: actual.title, expectedPrice: expected.price, actualPrice: actual.price });
+      }
+    }
+
+    const unavailable = this.products.filter(product => !product.available);
+
+    return {
+      added,
+      removed,
+      renamed,
+      repriced,
+      unavailable,
+      hasDrift: added.length + removed.length + renamed.length + repriced.length + unavailable.length > 0
+    };
+  }
+
+  /**
+   * Convert the catalog to baseline definitions
+   * @returns Product definitions suitable for a baseline catalog file
+   */
+  toDefinitions(): ProductDefinition[] {
+    return this.products.map(({ id, title, price }) => ({ id, title, price }));
+  }
+}
+
+/**
+ * Format product definitions the way baseline catalog files are committed: one product per line
+ * @param definitions - Baseline products
+ * @returns File content, ending with a newline
+ */
+export const formatCatalogFile = (definitions: ProductDefinition[]): string => {
+  const lines = definitions.map(({ id, title, price }) =>
+    `  { "id": ${JSON.stringify(id)}, "title": ${JSON.stringify(title)}, "price": ${JSON.stringify(price)} }`
+  );
+  return `[\n${lines.join(',\n')}\n]\n`;
+};
+
+/**
+ * Format a catalog drift as a readable report
+ * @param drift - Differences returned by ProductCatalog.diff
+ * @param baselineName - Name of the baseline, shown in the heading
+ * @returns Multi-line report
+ */
+export const formatDriftReport = (drift: CatalogDrift, baselineName: string): string => {
+  if (!drift.hasDrift) {
+    return `Catalog matches ${baselineName}`;
+  }
+
+  const price = (value: number): string => `$${value.toFixed(2)}`;
+  const lines = [`Catalog drift against ${baselineName}:`];
+  const section = (heading: string, entries: string[]): void => {
+    if (entries.length > 0) {
+      lines.push(`  ${heading} (${entries.length}):`, ...entries.map(entry => `    ${entry}`));
+    }
+  };
+
+  section('Added', drift.added.map(product => `+ ${product.id} "${product.title}" ${price(product.price)}`));
+  section('Removed', drift.removed.map(product => `- ${product.id} "${product.title}" ${price(product.price)}`));
+  section('Renamed', drift.renamed.map(product =>
+    `~ ${product.id} "${product.expectedTitle}" -> "${product.actualTitle}"`
+  ));
+  section('Repriced', drift.repriced.map(product =>
+    `~ ${product.id} "${product.title}" ${price(product.expectedPrice)} -> ${price(product.actualPrice)}`
+  ));
+  section('Not available to buy', drift.unavailable.map(product => `! ${product.id} "${product.title}"`));
+
+  return lines.join('\n');
+};
+
+/**
+ * Interface for a product card on the shop page
+ */
+export interface CatalogProduct {
+  id: string;
+  title: string;
+  price: number;
+  available: boolean;
+}
+
+/**
+ * Interface for a product whose title changed
+ */
+export interface RenamedProduct {
+  id: string;
+  expectedTitle: string;
+  actualTitle: string;
+}
+
+/**
+ * Interface for a product whose price changed
+ */
+export interface RepricedProduct {
+  id: string;
+  title: string;
+  expectedPrice: number;
+  actualPrice: number;
+}
+
+/**
+ * Interface for the differences between a live catalog and its baseline
+ */
+export interface CatalogDrift {
+  added: CatalogProduct[];
+  removed: ProductDefinition[];
+  renamed: RenamedProduct[];
+  repriced: RepricedProduct[];
+  unavailable: CatalogProduct[];
+  hasDrift: boolean;
+}
@@ -0,0 +1,206 @@
+import { Money } from './Money';
+import type { CartItem } from '../pages/CartPage';
+
+/**
+ * Error thrown when a product is bought again at a different price than before, since the cart
+ * cannot show both prices and reconciling at either one would hide the change
+ */
+export class PurchasePriceChangedError extends Error {
+  constructor(readonly product: string, readonly previousPrice: Money, readonly newPrice: Money) {
+    super(`"${product}" was bought at ${previousPrice} and is now bought at ${newPrice}; the shop repriced it during the test`);
+    this.name = 'PurchasePriceChangedError';
+  }
+}
+
+/**
+ * Record of what was bought in the shop, to reconcile the cart against
+ */
+export class PurchaseLedger {
+  private readonly purchases: Purchase[] = [];
+
+  /**
+   * Record a purchase
+   * @param product - Product title as shown in the shop
+   * @param unitPrice - Price shown on the shop when the product was bought
+   * @param quantity - Number of items bought
+   * @throws PurchasePriceChangedError if the product was already bought at a different price
+   */
+  record(product: string, unitPrice: Money, quantity: number): void {
+    const earlier = this.purchases.find(purchase => purchase.product === product);
+    if (earlier && !earlier.unitPrice.equals(unitPrice)) {
+      throw new PurchasePriceChangedError(product, earlier.unitPrice, unitPrice);
+    }
+    this.purchases.push({ product, unitPrice, quantity });
+  }
+
+  /**
+   * Forget every purchase, e.g. after the cart has been emptied
+   */
+  clear(): void {
+    this.purchases.length = 0;
+  }
+
+  /**
+   * Purchases combined into one line per product, in the order products were first bought.
+   * Every purchase of a product has the same price, which record enforces.
+   * @returns Expected cart lines
+   */
+  lines(): LedgerLine[] {
+    const lines = new Map<string, LedgerLine>();
+    for (const purchase of this.purchases) {
+      const line = lines.get(purchase.product);
+      if (line) {
+        line.quantity += purchase.quantity;
+        line.subtotal = line.unitPrice.multiply(line.quantity);
+      } else {
+        lines.set(purchase.product, {
+          product: purchase.product,
+          unitPrice: purchase.unitPrice,
+          quantity: purchase.quantity,
+          subtotal: purchase.unitPrice.multiply(purchase.quantity)
+        });
+      }
+    }
+    return [...lines.values()];
+  }
+
+  /**
+   * Expected cart total
+   * @returns Sum of every line's unit price x quantity
+   */
+  total(): Money {
+    return Money.sum(this.lines().map(line => line.subtotal));
+  }
+
+  /**
+   * Compare the ledger against the cart
+   * @param cartItems - Lines shown in the cart
+   * @param cartTotal - Total shown in the cart
+   * @returns Every difference between what was bought and what the cart shows
+   */
+  reconcile(cartItems: CartItem[], cartTotal: Money): CartReconciliation {
+    const lines = this.lines();
+    const cartByName = new Map(cartItems.map(item => [item.name, item]));
+    const expectedNames = new Set(lines.map(line => line.product));
+
+    const missing: LedgerLine[] = [];
+    const quantityMismatches: QuantityMismatch[] = [];
+    const priceMismatches: PriceMismatch[] = [];
+
+    for (const line of lines) {
+      const item = cartByName.get(line.product);
+      if (!item) {
+        missing.push(line);
+        continue;
+      }
+      if (item.quantity !== line.quantity) {
+        quantityMismatches.push({ product: line.product, expected: line.quantity, actual: item.quantity });
+      }
+      if (!item.price.equals(line.unitPrice)) {
+        priceMismatches.push({ product: line.product, shopPrice: line.unitPrice, cartPrice: item.price });
+      }
+    }
+
+    const unexpected = cartItems.filter(item => !expectedNames.has(item.name));
+    const expectedTotal = this.total();
+    const totalMismatch = expectedTotal.equals(cartTotal) ? null : { expected: expectedTotal, actual: cartTotal };
+
+    return {
+      missing,
+      unexpected,
+      quantityMismatches,
+      priceMismatches,
+      totalMismatch,
+      isReconciled: missing.length === 0
+        && unexpected.length === 0
+        && quantityMismatches.length === 0
+        && priceMismatches.length === 0
+        && totalMismatch === null
+    };
+  }
+}
+
+/**
+ * Format a cart reconciliation as a readable report
+ * @param reconciliation - Differences returned by PurchaseLedger.reconcile
+ * @returns Multi-line report
+ */
+export const formatReconciliationReport = (reconciliation: CartReconciliation): string => {
+  if (reconciliation.isReconciled) {
+    return 'Cart matches the purchase ledger';
+  }
+
+  const lines = ['Cart does not match the purchase ledger:'];
+  const section = (heading: string, entries: string[]): void => {
+    if (entries.length > 0) {
+      lines.push(`  ${heading} (${entries.length}):`, ...entries.map(entry => `    ${entry}`));
+    }
+  };
+
+  section('Missing from cart', reconciliation.missing.map(line =>
+    `- "${line.product}" ${line.quantity} x ${line.unitPrice}`
+  ));
+  section('Not bought', reconciliation.unexpected.map(item =>
+    `+ "${item.name}" ${item.quantity} x ${item.price}`
+  ));
+  section('Quantity', reconciliation.quantityMismatches.map(mismatch =>
+    `~ "${mismatch.product}" bought ${mismatch.expected}, cart shows ${mismatch.actual}`
+  ));
+  section('Price', reconciliation.priceMismatches.map(mismatch =>
+    `~ "${mismatch.product}" shop ${mismatch.shopPrice}, cart ${mismatch.cartPrice}`
+  ));
+  if (reconciliation.totalMismatch) {
+    lines.push(`  Total: expected ${reconciliation.totalMismatch.expected}, cart shows ${reconciliation.totalMismatch.actual}`);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Interface for one purchase made in the shop
+ */
+export interface Purchase {
+  product: string;
+  unitPrice: Money;
+  quantity: number;
+}
+
+/**
+ * Interface for the expected cart line of a product
+ */
+export interface LedgerLine {
+  product: string;
+  unitPrice: Money;
+  quantity: number;
+  subtotal: Money;
+}
+
+/**
+ * Interface for a product whose cart quantity differs from the quantity bought
+ */
+export interface QuantityMismatch {
+  product: string;
+  expected: number;
+  actual: number;
+}
+
+/**
+ * Interface for a product whose cart price differs from the shop price
+ */
+export interface PriceMismatch {
+  product: string;
+  shopPrice: Money;
+  cartPrice: Money;
+}
+
+/**
+ * Interface for the differences between the purchase ledger and the cart
+ */
+export interface CartReconciliation {
+  missing: LedgerLine[];
+  unexpected: CartItem[];
+  quantityMismatches: QuantityMismatch[];
+  priceMismatches: PriceMismatch[];
+  totalMismatch: { expected: Money; actual: Money } | null;
+  isReconciled: boolean;
+}
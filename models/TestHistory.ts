@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Outcomes of every test across past runs, for telling flaky tests from broken ones.
+ * A run holds one sample per execution of a test, so --repeat-each gives several samples per run.
+ */
+export class TestHistory {
+  private tests: Record<string, TestIdentity>;
+  private runs: HistoryRun[];
+
+  /**
+   * Constructor for the TestHistory class
+   * @param data - Previously saved history
+   */
+  constructor(data: HistoryData = { version: 1, tests: {}, runs: [] }) {
+    this.tests = { ...data.tests };
+    this.runs = [...data.runs];
+  }
+
+  /**
+   * Load the history file, or start an empty history if there is none yet
+   * @param file - History file path
+   * @returns The saved history
+   */
+  static load(file: string): TestHistory {
+    if (!fs.existsSync(file)) {
+      return new TestHistory();
+    }
+    return new TestHistory(JSON.parse(fs.readFileSync(file, 'utf-8')) as HistoryData);
+  }
+
+  /**
+   * Save the history
+   * @param file - History file path
+   */
+  save(file: string): void {
+    const data: HistoryData = { version: 1, tests: this.tests, runs: this.runs };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+  }
+
+  /**
+   * Add a run's samples, dropping the oldest runs beyond maxRuns
+   * @param id - Run identifier, e.g. its start time
+   * @param executions - One entry per test execution in the run
+   * @param maxRuns - Number of runs to keep
+   */
+  recordRun(id: string, executions: TestExecution[], maxRuns: number): void {
+    const samples: Record<string, TestSample[]> = {};
+    for (const execution of executions) {
+      this.tests[execution.test.key] = execution.test;
+      samples[execution.test.key] = [...(samples[execution.test.key] || []), execution.sample];
+    }
+    this.runs = [...this.runs, { id, samples }].slice(-maxRuns);
+
+    // Forget tests that no longer appear in any kept run
+    const kept = new Set(this.runs.flatMap(run => Object.keys(run.samples)));
+    this.tests = Object.fromEntries(Object.entries(this.tests).filter(([key]) => kept.has(key)));
+  }
+
+  /**
+   * Per-test statistics over every run in the history
+   * @returns Statistics for each test in the latest run, flakiest first
+   */
+  stats(): TestStats[] {
+    const latestRun = this.runs[this.runs.length - 1];
+    if (!latestRun) {
+      return [];
+    }
+
+    return Object.keys(latestRun.samples)
+      .map(key => this.statsFor(key))
+      .sort((a, b) => b.flakinessScore - a.flakinessScore || a.test.key.localeCompare(b.test.key));
+  }
+
+  /**
+   * Statistics for one test.
+   * The flakiness score averages the share of samples that passed only on retry and the share of
+   * consecutive samples whose result flipped between pass and fail: 0 is stable (always passing or
+   * always failing), 1 flips every time and needs a retry whenever it passes.
+   * @param key - Test key
+   * @returns Statistics over every run the test appears in
+   */
+  private statsFor(key: string): TestStats {
+    const runs = this.runs.filter(run => run.samples[key]);
+    const samples = runs.flatMap(run => run.samples[key]);
+
+    const passed = samples.filter(sample => sample.outcome !== 'failed').length;
+    const flaky = samples.filter(sample => sample.outcome === 'flaky').length;
+    let flips = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if ((samples[i].outcome === 'failed') !== (samples[i - 1].outcome === 'failed')) {
+        flips++;
+      }
+    }
+
+    const flakyRate = flaky / samples.length;
+    const flipRate = samples.length > 1 ? flips / (samples.length - 1) : 0;
+    const latest = runOutcome(runs[runs.length - 1].samples[key]);
+    const previous = runs.length > 1 ? runOutcome(runs[runs.length - 2].samples[key]) : null;
+
+    return {
+      test: this.tests[key],
+      runs: runs.length,
+      samples: samples.length,
+      passRate: passed / samples.length,
+      flakinessScore: (flakyRate + flipRate) / 2,
+      meanDurationMs: samples.reduce((sum, sample) => sum + sample.durationMs, 0) / samples.length,
+      latest,
+      previous,
+      passedOnlyOnRetry: runs[runs.length - 1].samples[key].some(sample => sample.outcome === 'flaky'),
+      changedRecently: latest === 'mixed' || (previous !== null && previous !== latest)
+    };
+  }
+}
+
+/**
+ * Summarise a test's samples in one run
+ * @param samples - The test's samples in the run
+ * @returns passed / flaky / failed when every sample agrees, mixed when some passed and some failed
+ */
+const runOutcome = (samples: TestSample[]): RunOutcome => {
+  const failed = samples.filter(sample => sample.outcome === 'failed').length;
+  if (failed === samples.length) {
+    return 'failed';
+  }
+  if (failed > 0) {
+    return 'mixed';
+  }
+  return samples.some(sample => sample.outcome === 'flaky') ? 'flaky' : 'passed';
+};
+
+/**
+ * Format the tests that need attention after a run
+ * @param stats - Per-test statistics, flakiest first
+ * @param maxListed - Maximum number of tests listed by flakiness score
+ * @returns Multi-line summary
+ */
+export const formatFlakinessSummary = (stats: TestStats[], maxListed: number = 10): string => {
+  const percent = (value: number): string => `${Math.round(value * 100)}%`;
+  const retried = stats.filter(entry => entry.passedOnlyOnRetry);
+  const changed = stats.filter(entry => entry.changedRecently);
+  const flaky = stats.filter(entry => entry.flakinessScore > 0).slice(0, maxListed);
+
+  const lines = [`Flakiness summary: ${stats.length} test(s), history of up to ${Math.max(0, ...stats.map(entry => entry.runs))} run(s)`];
+
+  lines.push('', `Passed only on retry in this run (${retried.length}):`);
+  lines.push(...(retried.length > 0 ? retried.map(entry => `  ${entry.test.key}`) : ['  none']));
+
+  lines.push('', `Behaviour changed in this run (${changed.length}):`);
+  lines.push(...(changed.length > 0
+    ? changed.map(entry => `  ${entry.test.key}: ${entry.previous ? `${entry.previous} -> ` : ''}${entry.latest}`)
+    : ['  none']));
+
+  lines.push('', `Flakiest tests (${flaky.length}):`);
+  lines.push(...(flaky.length > 0
+    ? flaky.map(entry =>
+      `  score ${entry.flakinessScore.toFixed(2)}  pass rate ${percent(entry.passRate).padStart(4)}  ` +
+      `${entry.samples} sample(s) in ${entry.runs} run(s)  ${entry.test.key}`)
+    : ['  none']));
+
+  return lines.join('\n');
+};
+
+/**
+ * Result of one test execution: passed first time, passed only on retry, or failed every attempt
+ */
+export type SampleOutcome = 'passed' | 'flaky' | 'failed';
+
+/**
+ * A test's result across its samples in one run
+ */
+export type RunOutcome = SampleOutcome | 'mixed';
+
+/**
+ * Interface for identifying a test across runs
+ */
+export interface TestIdentity {
+  key: string;
+  project: string;
+  file: string;
+  title: string;
+}
+
+/**
+ * Interface for one execution of a test, including its retries
+ */
+export interface TestSample {
+  outcome: SampleOutcome;
+  attempts: number;
+  durationMs: number;
+}
+
+/**
+ * Interface for a test execution reported by a run
+ */
+export interface TestExecution {
+  test: TestIdentity;
+  sample: TestSample;
+}
+
+/**
+ * Interface for a recorded run
+ */
+export interface HistoryRun {
+  id: string;
+  samples: Record<string, TestSample[]>;
+}
+
+/**
+ * Interface for the saved history file
+ */
+export interface HistoryData {
+  version: 1;
+  tests: Record<string, TestIdentity>;
+  runs: HistoryRun[];
+}
+
+/**
+ * Interface for a test's statistics over the history
+ */
+export interface TestStats {
+  test: TestIdentity;
+  runs: number;
+  samples: number;
+  passRate: number;
+  flakinessScore: number;
+  meanDurationMs: number;
+  latest: RunOutcome;
+  previous: RunOutcome | null;
+  passedOnlyOnRetry: boolean;
+  changedRecently: boolean;
+}
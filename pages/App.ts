@@ -0,0 +1,110 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { HomePage } from './HomePage';
+import { ShopPage } from './ShopPage';
+import { CartPage } from './CartPage';
+import { ContactPage } from './ContactPage';
+import { CheckoutPage } from './CheckoutPage';
+import { logger } from '../utils/logger';
+import { step } from '../utils/steps';
+import { environment } from '../config/environment';
+import { Route, RouteDefinition, routeDefinitions, routeOf, isRoute } from '../config/routes';
+import { UnexpectedRouteError, waitForRoute } from '../utils/routing';
+
+/**
+ * Every route with its hash path, readiness condition and the page object for its view
+ */
+export const routeRegistry = {
+  [Route.Home]: { ...routeDefinitions[Route.Home], pageObject: HomePage },
+  [Route.Shop]: { ...routeDefinitions[Route.Shop], pageObject: ShopPage },
+  [Route.Cart]: { ...routeDefinitions[Route.Cart], pageObject: CartPage },
+  [Route.Contact]: { ...routeDefinitions[Route.Contact], pageObject: ContactPage },
+  [Route.Checkout]: { ...routeDefinitions[Route.Checkout], pageObject: CheckoutPage }
+} satisfies Record<Route, RouteRegistration>;
+
+/**
+ * Facade over the app's routes, handing out the page object for the view that is showing
+ */
+export class App extends BasePage {
+  // One page object per route, so state such as the shop's purchase ledger is shared
+  private readonly pageObjects = new Map<Route, BasePage>();
+
+  /**
+   * Constructor for the App class
+   * @param page - Playwright page object
+   * @param pageObjects - Page objects to hand out instead of new ones, e.g. the test's fixtures
+   */
+  constructor(page: Page, pageObjects: Partial<RoutePageObjects> = {}) {
+    super(page);
+    for (const [route, pageObject] of Object.entries(pageObjects) as [Route, BasePage][]) {
+      this.pageObjects.set(route, pageObject);
+    }
+  }
+
+  /**
+   * Open a route by its URL
+   * @param route - Route to open, e.g. Route.Cart
+   * @returns Promise resolving to the route's page object, once its view is ready
+   * @throws UnexpectedRouteError if the app lands on a different route
+   */
+  async goto<R extends Route>(route: R): Promise<RoutePageObject<R>>;
+  @step()
+  async goto(route: Route): Promise<RoutePageObject<Route>> {
+    logger.info(`Going to the ${route} route`);
+    await this.gotoRoute(route);
+    return this.pageObjectFor(route);
+  }
+
+  /**
+   * Get the page object for the route the app is showing, once its view is ready.
+   * Pass the expected route after an action that navigates, to get its page object typed.
+   * @param expected - Route the app should be on
+   * @returns Promise resolving to the page object of the current route
+   * @throws UnexpectedRouteError if the app is on another route than expected, or on an unknown one
+   */
+  async current<R extends Route>(expected: R): Promise<RoutePageObject<R>>;
+  async current(): Promise<RoutePageObject<Route>>;
+  @step()
+  async current(expected?: Route): Promise<RoutePageObject<Route>> {
+    const url = this.page.url();
+    const route = expected || routeOf(url);
+    if (!isRoute(route)) {
+      throw new UnexpectedRouteError(null, route, url);
+    }
+
+    await waitForRoute(this.page, route, environment.actionTimeout);
+    logger.info(`App is on the ${route} route`);
+    return this.pageObjectFor(route);
+  }
+
+  /**
+   * Get the page object for a route, creating it on first use
+   * @param route - Route
+   * @returns The route's page object
+   */
+  private pageObjectFor<R extends Route>(route: R): RoutePageObject<R> {
+    let pageObject = this.pageObjects.get(route);
+    if (!pageObject) {
+      pageObject = new routeRegistry[route].pageObject(this.page);
+      this.pageObjects.set(route, pageObject);
+    }
+    return pageObject as RoutePageObject<R>;
+  }
+}
+
+/**
+ * Page object class for a route
+ */
+export type RoutePageObject<R extends Route> = InstanceType<typeof routeRegistry[R]['pageObject']>;
+
+/**
+ * Page objects for every route
+ */
+export type RoutePageObjects = { [R in Route]: RoutePageObject<R> };
+
+/**
+ * Interface for a route in the registry
+ */
+export interface RouteRegistration extends RouteDefinition {
+  pageObject: new (page: Page) => BasePage;
+}
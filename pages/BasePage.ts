@@ -1,12 +1,51 @@
 import { Page, Locator } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { environment } from '../config/environment';
+import { selectorHealing } from '../utils/selectorHealing';
+import { redaction, redactedValue } from '../utils/redaction';
+import { step, formatStepArgument } from '../utils/steps';
+import { findAccessibilityIssues, AccessibilityReport } from '../utils/accessibility';
+import { performanceMetrics, startMeasurement, finishMeasurement, MeasurementStart } from '../utils/performanceMetrics';
+import { PerformanceAction } from '../config/performance';
+import { Route, routeDefinitions } from '../config/routes';
+import { waitForRoute } from '../utils/routing';
 
 /**
  * Base page object class that provides common functionality for all page objects
  */
 export class BasePage {
+  /**
+   * Selectors of inputs holding sensitive values. Values filled into them are masked in logs,
+   * step titles and attached logs, and the inputs are masked in failure screenshots.
+   */
+  static readonly sensitiveSelectors: readonly string[] = [];
+
+  /**
+   * Named visual checkpoints compared with toHaveScreenshot, each listing the regions whose
+   * content changes from run to run and must be masked
+   */
+  static readonly visualCheckpoints: Readonly<Record<string, VisualCheckpointDefinition>> = {};
+
+  /**
+   * Region whose accessibility tree is compared with toMatchAriaSnapshot and checked by checkAccessibility
+   */
+  static readonly ariaRegion: string = 'body';
+
+  // Navbar content that depends on the session rather than the page: cart count and signed-in user
+  private static readonly navbarDynamicRegions = ['.cart-count', '#nav-user .user'];
+
+  // On narrow viewports the navbar links are collapsed behind a toggle button
+  private static readonly navbarToggle = '.btn-navbar';
+  private static readonly navbarCollapse = '.nav-collapse';
+
   protected page: Page;
-  readonly baseUrl = 'http://jupiter.cloud.planittesting.com';
+  readonly baseUrl = environment.baseUrl;
+
+  // Set while a measurement runs, so navigations made inside a measured method are not measured again
+  private measuring = false;
+
+  // Started by an action whose outcome a later method waits for, e.g. submitting a form
+  private pendingMeasurement: PendingMeasurement | null = null;
 
   /**
    * Constructor for the BasePage class
@@ -20,16 +59,35 @@ export class BasePage {
    * Navigate to a specific URL
    * @param path - Path to append to base URL
    */
+  @step()
   async navigate(path: string = ''): Promise<void> {
     const url = `${this.baseUrl}${path}`;
     logger.info(`Navigating to: ${url}`);
-    await this.page.goto(url);
+    await this.measure(`navigate to ${path || '/'}`, 'navigation', () => this.page.goto(url));
+  }
+
+  /**
+   * Clear cookies and web storage for the app, resetting the cart and any session
+   */
+  @step()
+  async clearSessionState(): Promise<void> {
+    logger.info('Clearing cookies and storage');
+    await this.page.context().clearCookies();
+    
+    // Web storage can only be cleared from a page on the app's origin
+    if (this.page.url().startsWith(this.baseUrl)) {
+      await this.page.evaluate(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+      });
+    }
   }
 
   /**
    * Get page title
    * @returns Promise resolving to the page title
    */
+  @step()
   async getTitle(): Promise<string> {
     const title = await this.page.title();
     logger.info(`Page title: ${title}`);
@@ -40,6 +98,7 @@ export class BasePage {
    * Click on an element
    * @param selector - Element selector
    */
+  @step()
   async click(selector: string): Promise<void> {
     logger.info(`Clicking element: ${selector}`);
     await this.page.click(selector);
@@ -50,9 +109,241 @@ export class BasePage {
    * @param selector - Form field selector
    * @param value - Value to fill
    */
+  // Sensitive values are registered for masking only once the method runs, so keep them out of the title here
+  @step((basePage: BasePage, selector: string, value: string) =>
+    `fill ${formatStepArgument(selector)} with ${basePage.isSensitive(selector) ? redactedValue : formatStepArgument(value)}`)
   async fill(selector: string, value: string): Promise<void> {
-    logger.info(`Filling ${selector} with value: ${value}`);
-    await this.page.fill(selector, value);
+    if (!this.isSensitive(selector)) {
+      logger.info(`Filling ${selector} with value: ${value}`);
+      await this.page.fill(selector, value);
+      return;
+    }
+    
+    redaction.register(value);
+    logger.info(`Filling ${selector} with value: ${redactedValue}`);
+    
+    // Set through the DOM rather than page.fill, whose step title would show the value
+    const input = this.page.locator(selector);
+    await input.waitFor({ state: 'visible' });
+    await input.evaluate((element, text) => {
+      const field = element as HTMLInputElement;
+      field.focus();
+      field.value = text;
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+      field.dispatchEvent(new Event('change', { bubbles: true }));
+    }, value);
+  }
+
+  /**
+   * Open a route by its URL and wait until its view is ready
+   * @param route - Route to open
+   */
+  protected async gotoRoute(route: Route): Promise<void> {
+    await this.measure(`navigate to ${route}`, 'navigation', async () => {
+      await this.navigate(routeDefinitions[route].path);
+      await this.waitForRoute(route);
+    });
+  }
+
+  /**
+   * Wait until the app shows a route and its view has rendered, e.g. after following a link
+   * @param route - Expected route
+   * @throws UnexpectedRouteError if the app lands on a different route
+   */
+  protected async waitForRoute(route: Route): Promise<void> {
+    await waitForRoute(this.page, route, environment.actionTimeout);
+  }
+
+  /**
+   * Click a link in the navbar, expanding the navbar first if it is collapsed
+   * @param selector - Navbar link selector
+   */
+  protected async clickNavLink(selector: string): Promise<void> {
+    await this.expandNavbar();
+    await this.click(selector);
+  }
+
+  /**
+   * Expand the navbar if it is collapsed behind its toggle (phone and tablet viewports).
+   * Does nothing on wide viewports, where the toggle is hidden and the links always show.
+   */
+  protected async expandNavbar(): Promise<void> {
+    const toggle = this.page.locator(BasePage.navbarToggle);
+    const collapse = this.page.locator(BasePage.navbarCollapse);
+    if (!await toggle.isVisible() || await collapse.isVisible()) {
+      return;
+    }
+    
+    logger.info('Expanding collapsed navbar');
+    await toggle.click();
+    await collapse.waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Time a navigation or action until the view is ready, recording the browser's timing data
+   * for the test's performance metrics. A measurement inside another one is not recorded separately.
+   * @param label - What is measured, e.g. "navigate to shop"
+   * @param action - Kind of measurement, for matching budgets
+   * @param run - Performs the navigation or action and waits until the view is ready
+   * @returns Promise resolving to what run returns
+   */
+  protected async measure<T>(label: string, action: PerformanceAction, run: () => Promise<T>): Promise<T> {
+    if (this.measuring) {
+      return run();
+    }
+    
+    const start = await this.startMeasurementSafely();
+    this.measuring = true;
+    try {
+      const result = await run();
+      if (start) {
+        await this.recordMeasurement({ start, label, action });
+      }
+      return result;
+    } finally {
+      this.measuring = false;
+    }
+  }
+
+  /**
+   * Start timing an action whose outcome a later method waits for;
+   * the later method calls finishPendingMeasurement once the outcome shows
+   * @param label - What is measured, e.g. "submit contact form"
+   * @param action - Kind of measurement, for matching budgets
+   */
+  protected async startPendingMeasurement(label: string, action: PerformanceAction): Promise<void> {
+    const start = await this.startMeasurementSafely();
+    this.pendingMeasurement = start ? { start, label, action } : null;
+  }
+
+  /**
+   * Record the measurement started by startPendingMeasurement, if there is one
+   */
+  protected async finishPendingMeasurement(): Promise<void> {
+    const pending = this.pendingMeasurement;
+    this.pendingMeasurement = null;
+    if (pending) {
+      await this.recordMeasurement(pending);
+    }
+  }
+
+  /**
+   * Drop the measurement started by startPendingMeasurement without recording it,
+   * for when the awaited outcome will not come (e.g. the form was rejected)
+   * @param reason - Why the measurement is dropped, for the log
+   */
+  protected discardPendingMeasurement(reason: string): void {
+    if (this.pendingMeasurement) {
+      logger.info(`Not recording ${this.pendingMeasurement.label}: ${reason}`);
+      this.pendingMeasurement = null;
+    }
+  }
+
+  /**
+   * Read the browser clock at the start of a measurement
+   * @returns Promise resolving to the start, or null if the page could not be read (e.g. mid-navigation)
+   */
+  private async startMeasurementSafely(): Promise<MeasurementStart | null> {
+    try {
+      return await startMeasurement(this.page);
+    } catch (error) {
+      logger.warn(`Could not start performance measurement: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Read the browser's timing data for a finished measurement and record it.
+   * Measuring never fails the action itself; budgets are enforced when the test ends.
+   * @param measurement - Where the measurement started and what it times
+   */
+  private async recordMeasurement(measurement: PendingMeasurement): Promise<void> {
+    const label = `${this.constructor.name}: ${measurement.label}`;
+    try {
+      performanceMetrics.record(await finishMeasurement(this.page, measurement.start, label, measurement.action));
+    } catch (error) {
+      logger.warn(`Could not read performance timings for ${label}: ${error}`);
+    }
+  }
+
+  /**
+   * Check if a selector is declared sensitive by this page object
+   * @param selector - Element selector
+   * @returns True if values filled into the element must be masked
+   */
+  protected isSensitive(selector: string): boolean {
+    return (this.constructor as typeof BasePage).sensitiveSelectors.includes(selector);
+  }
+
+  /**
+   * Resolve one of this page object's visual checkpoints.
+   * The navbar's dynamic regions and the page object's sensitive inputs are always masked.
+   * @param name - Checkpoint name, as declared in visualCheckpoints
+   * @returns The screenshot name, what to capture and the locators to mask
+   */
+  visualCheckpoint(name: string): VisualCheckpoint {
+    const pageObject = this.constructor as typeof BasePage;
+    const definition = pageObject.visualCheckpoints[name];
+    if (!definition) {
+      const declared = Object.keys(pageObject.visualCheckpoints);
+      throw new Error(
+        `${pageObject.name} has no visual checkpoint "${name}" ` +
+        `(declared: ${declared.length > 0 ? declared.join(', ') : 'none'})`
+      );
+    }
+    
+    const checkpointName = `${this.checkpointPrefix()}-${name}`;
+    const masked = [...BasePage.navbarDynamicRegions, ...pageObject.sensitiveSelectors, ...(definition.mask || [])];
+    logger.info(`Visual checkpoint ${checkpointName}, masking: ${masked.join(', ')}`);
+    
+    return {
+      name: checkpointName,
+      screenshotName: `${checkpointName}.png`,
+      page: this.page,
+      region: definition.region ? this.page.locator(definition.region) : null,
+      mask: masked.map(selector => this.page.locator(selector))
+    };
+  }
+
+  /**
+   * Resolve this page object's accessibility-tree checkpoint
+   * @returns The ARIA snapshot name and the region to snapshot
+   */
+  ariaCheckpoint(): AriaCheckpoint {
+    const pageObject = this.constructor as typeof BasePage;
+    const checkpointName = this.checkpointPrefix();
+    logger.info(`ARIA checkpoint ${checkpointName} of ${pageObject.ariaRegion}`);
+    
+    return {
+      name: checkpointName,
+      snapshotName: `${checkpointName}.aria.yml`,
+      region: this.page.locator(pageObject.ariaRegion)
+    };
+  }
+
+  /**
+   * Check the page for form inputs without labels, buttons without accessible names
+   * and images without alt text
+   * @returns Promise resolving to the issues found, one per element and failed check
+   */
+  @step()
+  async checkAccessibility(): Promise<AccessibilityReport> {
+    const pageObject = this.constructor as typeof BasePage;
+    logger.info(`Checking ${pageObject.name} for accessibility issues`);
+    
+    return {
+      pageObject: pageObject.name,
+      url: this.page.url(),
+      issues: await findAccessibilityIssues(this.page.locator(pageObject.ariaRegion))
+    };
+  }
+
+  /**
+   * Name checkpoint baselines after the page object, e.g. ContactPage -> contact-page
+   * @returns Kebab-case page object name
+   */
+  private checkpointPrefix(): string {
+    return this.constructor.name.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
   }
 
   /**
@@ -60,6 +351,7 @@ export class BasePage {
    * @param selector - Element selector
    * @returns Promise resolving to the element text or null
    */
+  @step()
   async getText(selector: string): Promise<string | null> {
     const text = await this.page.textContent(selector);
     logger.info(`Text content of ${selector}: ${text}`);
@@ -70,6 +362,7 @@ export class BasePage {
    * Wait for element to be visible
    * @param selector - Element selector
    */
+  @step()
   async waitForElement(selector: string): Promise<Locator> {
     logger.info(`Waiting for element: ${selector}`);
     const element = this.page.locator(selector);
@@ -82,6 +375,7 @@ export class BasePage {
    * @param selector - Element selector
    * @returns Promise resolving to boolean indicating visibility
    */
+  @step()
   async isVisible(selector: string): Promise<boolean> {
     logger.info(`Checking if element is visible: ${selector}`);
     const element = this.page.locator(selector);
@@ -93,9 +387,125 @@ export class BasePage {
    * @param selector - Element selector
    * @returns Promise resolving to the count of matching elements
    */
+  @step()
   async getElementCount(selector: string): Promise<number> {
     const count = await this.page.locator(selector).count();
     logger.info(`Element count for ${selector}: ${count}`);
     return count;
   }
-}
\ No newline at end of file
+
+  /**
+   * Resolve an element from ranked candidate selectors.
+   * The first candidate is the primary selector; when only a later candidate matches,
+   * the fallback is recorded in the healed selector report (or fails the test in strict mode).
+   * @param candidates - Element name and ranked candidate selectors
+   * @param options - Scope to search in, required state and how long to wait for any candidate
+   * @returns Promise resolving to the first matching candidate, or null if none match
+   */
+  protected async resolveLocator(candidates: LocatorCandidates, options: ResolveLocatorOptions = {}): Promise<Locator | null> {
+    const scope = options.scope || this.page.locator(':root');
+    const state = options.state || 'attached';
+    const locators = candidates.selectors.map(selector => scope.locator(selector));
+    
+    if (options.timeout) {
+      const anyCandidate = locators.reduce((combined, locator) => combined.or(locator));
+      await anyCandidate.first().waitFor({ state, timeout: options.timeout }).catch(() => {
+        logger.info(`No candidate for ${candidates.name} appeared within ${options.timeout}ms`);
+      });
+    }
+    
+    for (let rank = 0; rank < locators.length; rank++) {
+      const locator = locators[rank];
+      const matches = state === 'visible'
+        ? await locator.first().isVisible()
+        : await locator.count() > 0;
+      
+      if (matches) {
+        if (rank > 0) {
+          selectorHealing.record({
+            pageObject: this.constructor.name,
+            element: candidates.name,
+            primary: candidates.selectors[0],
+            matched: candidates.selectors[rank],
+            rank,
+            candidates: candidates.selectors
+          });
+        }
+        return locator;
+      }
+    }
+    
+    logger.info(`No candidate matched for ${candidates.name}: ${candidates.selectors.join(', ')}`);
+    return null;
+  }
+
+  /**
+   * Resolve an element from ranked candidate selectors, failing if none match
+   * @param candidates - Element name and ranked candidate selectors
+   * @param options - Scope to search in, required state and how long to wait for any candidate
+   * @returns Promise resolving to the first matching candidate
+   */
+  protected async requireLocator(candidates: LocatorCandidates, options: ResolveLocatorOptions = {}): Promise<Locator> {
+    const locator = await this.resolveLocator(candidates, options);
+    if (!locator) {
+      throw new Error(`No ${candidates.name} found with any selector: ${candidates.selectors.join(', ')}`);
+    }
+    return locator;
+  }
+}
+
+/**
+ * Ranked candidate selectors for one element; the first selector is the primary one
+ */
+export interface LocatorCandidates {
+  name: string;
+  selectors: readonly string[];
+}
+
+/**
+ * Declaration of a visual checkpoint on a page object
+ */
+export interface VisualCheckpointDefinition {
+  // Element to capture; the full page when left out
+  region?: string;
+  // Selectors of regions whose content changes from run to run
+  mask?: readonly string[];
+}
+
+/**
+ * A visual checkpoint resolved against the current page
+ */
+export interface VisualCheckpoint {
+  name: string;
+  screenshotName: string;
+  page: Page;
+  region: Locator | null;
+  mask: Locator[];
+}
+
+/**
+ * An accessibility-tree checkpoint resolved against the current page
+ */
+export interface AriaCheckpoint {
+  name: string;
+  snapshotName: string;
+  region: Locator;
+}
+
+/**
+ * A measurement that has started and is waiting for its outcome
+ */
+interface PendingMeasurement {
+  start: MeasurementStart;
+  label: string;
+  action: PerformanceAction;
+}
+
+/**
+ * Options for resolving candidate selectors
+ */
+export interface ResolveLocatorOptions {
+  scope?: Locator;
+  state?: 'attached' | 'visible';
+  timeout?: number;
+}
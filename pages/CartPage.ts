@@ -1,60 +1,71 @@
-import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage, LocatorCandidates } from './BasePage';
 import { logger } from '../utils/logger';
+import { step } from '../utils/steps';
+import { Route } from '../config/routes';
+import { environment } from '../config/environment';
+import { Money, MoneyParseError } from '../models/Money';
+import { PurchaseLedger, CartReconciliation, formatReconciliationReport } from '../models/PurchaseLedger';
 
 /**
  * Page object for the Cart page
  */
 export class CartPage extends BasePage {
-  // Cart table selectors - multiple options for flexibility
-  private readonly cartTableSelectors = [
-    '.cart-items',
-    'table.cart',
-    'table.table',
-    '.cart-contents'
-  ];
+  static readonly visualCheckpoints = {
+    cart: {}
+  };
+
+  // Ranked candidate selectors - the first is the primary selector, the rest are fallbacks
+  private readonly cartRow: LocatorCandidates = {
+    name: 'cart row',
+    selectors: ['.cart-item', 'tr', 'tbody tr', '.item']
+  };
+  
+  private readonly productName: LocatorCandidates = {
+    name: 'product name',
+    selectors: ['.product-title', 'td:first-child', '.item-name', '.name']
+  };
+  
+  private readonly productPrice: LocatorCandidates = {
+    name: 'product price',
+    selectors: ['.product-price', 'td:nth-child(2)', '.price', '.item-price']
+  };
+  
+  private readonly productQuantity: LocatorCandidates = {
+    name: 'quantity input',
+    selectors: ['input.input-mini', 'input[type="number"]', '.quantity input', 'td:nth-child(3) input']
+  };
   
-  private readonly cartRowSelectors = [
-    '.cart-item',
-    'tr',
-    'tbody tr',
-    '.item'
-  ];
+  // The Subtotal column; the last column holds the remove link
+  private readonly productSubtotal: LocatorCandidates = {
+    name: 'line subtotal',
+    selectors: ['.line-price', 'td:nth-child(4)', '.subtotal', '.item-total']
+  };
   
-  private readonly productNameSelectors = [
-    '.product-title',
-    'td:first-child',
-    '.item-name',
-    '.name'
-  ];
+  private readonly totalPrice: LocatorCandidates = {
+    name: 'cart total',
+    selectors: ['.total', 'tfoot .total', 'tfoot td:last-child', '.cart-total']
+  };
   
-  private readonly productPriceSelectors = [
-    '.product-price',
-    'td:nth-child(2)',
-    '.price',
-    '.item-price'
-  ];
+  private readonly removeItemLink: LocatorCandidates = {
+    name: 'remove link',
+    selectors: ['.remove-item', 'a[aria-label^="Remove"]', 'td:last-child a']
+  };
   
-  private readonly productQuantitySelectors = [
-    'input.input-mini',
-    'input[type="number"]',
-    '.quantity input',
-    'td:nth-child(3) input'
-  ];
+  private readonly emptyCartButton: LocatorCandidates = {
+    name: 'empty cart button',
+    selectors: ['.cart-items .btn-danger', 'a.btn-danger', 'text=Empty Cart']
+  };
   
-  private readonly productSubtotalSelectors = [
-    '.line-price',
-    'td:last-child',
-    '.subtotal',
-    '.item-total'
-  ];
+  private readonly checkoutButton: LocatorCandidates = {
+    name: 'check out button',
+    selectors: ['.btn-checkout', 'a:has-text("Check Out")']
+  };
   
-  private readonly totalPriceSelectors = [
-    '.total',
-    'tfoot .total',
-    'tfoot td:last-child',
-    '.cart-total'
-  ];
+  private readonly confirmYesButton: LocatorCandidates = {
+    name: 'confirm button',
+    selectors: ['.popup .btn-success', '[role="dialog"] .btn-success', '.modal-footer a:has-text("Yes")']
+  };
   
   /**
    * Constructor for the CartPage class
@@ -67,169 +78,292 @@ export class CartPage extends BasePage {
   /**
    * Navigate to the cart page
    */
+  @step()
   async navigateToCart(): Promise<void> {
     logger.info('Navigating to cart page');
-    await this.navigate('/#/cart');
-    
-    // Wait for cart page to load with flexible selectors
-    await this.waitForCartPage();
+    await this.gotoRoute(Route.Cart);
   }
   
   /**
-   * Wait for cart page to load with flexible selectors
+   * Get all cart items
+   * @returns Promise resolving to array of cart items with their details
    */
-  private async waitForCartPage(): Promise<void> {
-    logger.info('Waiting for cart page to load');
+  @step()
+  async getCartItems(): Promise<CartItem[]> {
+    logger.info('Getting all cart items');
     
-    for (const selector of this.cartTableSelectors) {
-      try {
-        await this.page.waitForSelector(selector, { timeout: 5000 });
-        logger.info(`Cart page loaded, found: ${selector}`);
-        return;
-      } catch (error) {
-        logger.info(`Selector not found: ${selector}`);
-      }
+    const lines = await this.readCartLines();
+    if (lines.length === 0) {
+      logger.error('No cart items found with any selector');
+      return [];
+    }
+    
+    const items: CartItem[] = [];
+    for (const line of lines) {
+      // Amounts are parsed strictly; unreadable prices fail rather than count as zero
+      const price = Money.parse(line.price);
+      const subtotal = Money.parse(line.subtotal);
+      const quantity = parseInt(line.quantity || '0', 10);
+      
+      items.push({ name: line.name, price, quantity, subtotal });
+      logger.info(`Cart item ${items.length}: ${line.name}, Price: ${price}, Quantity: ${quantity}, Subtotal: ${subtotal}`);
     }
     
-    logger.warn('None of the expected cart page selectors found, continuing anyway');
+    logger.info(`Found ${items.length} cart items`);
+    return items;
   }
 
   /**
-   * Get all cart items
-   * @returns Promise resolving to array of cart items with their details
+   * Read the text of every cart line, without parsing it
+   * @returns Promise resolving to one entry per line that has a quantity input
    */
-  async getCartItems(): Promise<CartItem[]> {
-    logger.info('Getting all cart items');
-    
-    // First find which row selector works
-    let rowSelector = this.cartRowSelectors[0];
-    let rowCount = 0;
+  private async readCartLines(): Promise<CartLineText[]> {
+    const cartRows = await this.resolveLocator(this.cartRow);
+    const rowCount = cartRows ? await cartRows.count() : 0;
+    const lines: CartLineText[] = [];
     
-    for (const selector of this.cartRowSelectors) {
-      try {
-        const count = await this.page.locator(selector).count();
-        if (count > 0) {
-          rowSelector = selector;
-          rowCount = count;
-          logger.info(`Found ${count} cart items with selector: ${selector}`);
-          break;
-        }
-      } catch (error) {
-        // Try next selector
+    for (let i = 0; cartRows && i < rowCount; i++) {
+      const row = cartRows.nth(i);
+      
+      // Header and footer rows matched by the looser fallbacks have no quantity input
+      const quantityInput = await this.resolveLocator(this.productQuantity, { scope: row });
+      if (!quantityInput) {
+        continue;
       }
+      
+      lines.push({
+        name: (await this.readText(row, this.productName)).trim(),
+        price: await this.readText(row, this.productPrice),
+        quantity: await quantityInput.first().inputValue(),
+        subtotal: await this.readText(row, this.productSubtotal)
+      });
     }
     
-    if (rowCount === 0) {
-      logger.error('No cart items found with any selector');
-      return [];
+    return lines;
+  }
+
+  /**
+   * Get total price from cart
+   * @returns Promise resolving to total price
+   * @throws Error naming the selectors tried if no total is shown, rather than reading it as zero
+   */
+  @step()
+  async getTotalPrice(): Promise<Money> {
+    logger.info('Getting total price');
+    
+    const totalText = await this.readText(this.page.locator(':root'), this.totalPrice);
+    if (!totalText) {
+      throw new Error(`No ${this.totalPrice.name} found with any selector: ${this.totalPrice.selectors.join(', ')}`);
     }
     
-    // Function to try getting content with multiple selectors
-    const getTextWithSelectors = async (parent: any, selectors: string[]): Promise<string> => {
-      for (const selector of selectors) {
-        try {
-          const element = parent.locator(selector);
-          if (await element.count() > 0) {
-            const text = await element.textContent();
-            return text || '';
-          }
-        } catch (error) {
-          // Try next selector
-        }
-      }
-      return '';
-    };
+    const total = Money.parse(this.stripTotalLabel(totalText));
+    logger.info(`Total price: ${total}`);
+    return total;
+  }
+
+  /**
+   * Remove the label from the displayed total
+   * @param totalText - Total as displayed, e.g. "Total: 116.9"
+   * @returns The amount, e.g. "116.9"
+   */
+  private stripTotalLabel(totalText: string): string {
+    return totalText.replace(/^\s*Total:?/i, '');
+  }
+
+  /**
+   * Set the quantity of a cart line through its quantity input
+   * @param productName - Name of the product in the cart
+   * @param quantity - New quantity; 0 removes the line, negative quantities are rejected by the app
+   */
+  @step()
+  async setQuantity(productName: string, quantity: number): Promise<void> {
+    logger.info(`Setting quantity of ${productName} to ${quantity}`);
+    const row = await this.findCartRow(productName);
+    const input = (await this.requireLocator(this.productQuantity, { scope: row })).first();
     
-    // Function to try getting input value with multiple selectors
-    const getInputValueWithSelectors = async (parent: any, selectors: string[]): Promise<string> => {
-      for (const selector of selectors) {
-        try {
-          const element = parent.locator(selector);
-          if (await element.count() > 0) {
-            const value = await element.inputValue();
-            return value || '0';
-          }
-        } catch (error) {
-          // Try next selector
-        }
-      }
-      return '0';
-    };
+    await input.fill(String(quantity));
+    // Leave the field so the app commits or rejects the value; a quantity of 0 may already have removed the line
+    if (await input.count() > 0) {
+      await input.blur();
+    }
     
-    const cartRows = this.page.locator(rowSelector);
-    const items: CartItem[] = [];
+    // A rejected (negative) quantity leaves the line as it was, so there is no quantity to wait for
+    const expectedQuantity = quantity >= 0 ? quantity : null;
+    await this.waitForCartRecalculated(productName, expectedQuantity);
+  }
+
+  /**
+   * Remove a line from the cart
+   * @param productName - Name of the product in the cart
+   */
+  @step()
+  async removeItem(productName: string): Promise<void> {
+    logger.info(`Removing ${productName} from cart`);
+    const row = await this.findCartRow(productName);
+    const removeLink = (await this.requireLocator(this.removeItemLink, { scope: row })).first();
     
-    for (let i = 0; i < rowCount; i++) {
-      try {
-        const row = cartRows.nth(i);
-        
-        const name = await getTextWithSelectors(row, this.productNameSelectors);
-        const priceText = await getTextWithSelectors(row, this.productPriceSelectors);
-        const quantityText = await getInputValueWithSelectors(row, this.productQuantitySelectors);
-        const subtotalText = await getTextWithSelectors(row, this.productSubtotalSelectors);
-        
-        // Parse numeric values
-        const price = parseFloat(priceText.replace(/[^0-9.]/g, '') || '0');
-        const quantity = parseInt(quantityText || '0', 10);
-        const subtotal = parseFloat(subtotalText.replace(/[^0-9.]/g, '') || '0');
-        
-        if (name || price > 0 || quantity > 0) {
-          items.push({
-            name: name.trim(),
-            price,
-            quantity,
-            subtotal
-          });
-          
-          logger.info(`Cart item ${i+1}: ${name.trim()}, Price: $${price}, Quantity: ${quantity}, Subtotal: $${subtotal}`);
-        }
-      } catch (error) {
-        logger.error(`Error processing cart item ${i+1}: ${error}`);
-      }
+    await removeLink.click();
+    await this.waitForCartRecalculated(productName, 0);
+  }
+
+  /**
+   * Empty the cart, accepting the confirmation dialog
+   */
+  @step()
+  async emptyCart(): Promise<void> {
+    logger.info('Emptying cart');
+    const button = await this.requireLocator(this.emptyCartButton);
+    await button.first().click();
+    
+    const confirmButton = await this.requireLocator(this.confirmYesButton, { state: 'visible', timeout: environment.actionTimeout });
+    logger.info('Confirming empty cart dialog');
+    await confirmButton.first().click();
+    
+    await this.page.waitForFunction(
+      rowSelectors => !rowSelectors.some(selector => document.querySelector(`${selector} input`)),
+      this.cartRow.selectors,
+      { timeout: environment.actionTimeout }
+    );
+    logger.info('Cart is empty');
+  }
+
+  /**
+   * Proceed from the cart to the checkout page
+   */
+  @step()
+  async proceedToCheckout(): Promise<void> {
+    logger.info('Proceeding to checkout');
+    const button = await this.requireLocator(this.checkoutButton);
+    await this.measure('proceed to checkout', 'navigation', async () => {
+      await button.first().click();
+      await this.waitForRoute(Route.Checkout);
+    });
+  }
+
+  /**
+   * Find the cart row for a product
+   * @param productName - Name of the product in the cart
+   * @returns Promise resolving to the row locator
+   */
+  private async findCartRow(productName: string): Promise<Locator> {
+    const rows = await this.requireLocator(this.cartRow);
+    const row = rows.filter({ hasText: productName }).filter({ has: this.page.locator('input') });
+    
+    if (await row.count() === 0) {
+      throw new Error(`Cart line not found for: ${productName}`);
     }
+    return row.first();
+  }
+
+  /**
+   * Read the text of the first matching candidate inside a parent element
+   * @param parent - Element to search in
+   * @param candidates - Ranked candidate selectors
+   * @returns Promise resolving to the text, or an empty string if no candidate matches
+   */
+  private async readText(parent: Locator, candidates: LocatorCandidates): Promise<string> {
+    const element = await this.resolveLocator(candidates, { scope: parent });
+    return element ? await element.first().textContent() || '' : '';
+  }
+
+  /**
+   * Wait until the cart has re-rendered after a change: the edited line shows the
+   * expected quantity (or is gone), every line subtotal equals price x quantity and
+   * the total equals the sum of the subtotals.
+   * Without a product it only waits for the subtotals and total to be consistent.
+   * @param productName - Name of the edited product
+   * @param expectedQuantity - Quantity the line should show, 0 if it should be gone, null if unknown
+   */
+  @step()
+  async waitForCartRecalculated(productName: string | null = null, expectedQuantity: number | null = null): Promise<void> {
+    logger.info(productName
+      ? `Waiting for cart to recalculate after editing ${productName}`
+      : 'Waiting for cart subtotals and total to be consistent');
     
-    logger.info(`Found ${items.length} cart items`);
-    return items;
+    // Polled from here rather than in the page, so the lines are read through the ranked selectors and
+    // their amounts parsed with Money; a line caught mid-render simply reads as not recalculated yet
+    await expect.poll(() => this.findCartInconsistency(productName, expectedQuantity), {
+      message: 'Cart did not recalculate',
+      timeout: environment.actionTimeout
+    }).toBeNull();
+    
+    logger.info('Cart recalculated');
   }
 
   /**
-   * Get total price from cart
-   * @returns Promise resolving to total price
+   * Check the cart once for the state waitForCartRecalculated waits for
+   * @param productName - Name of the edited product, or null
+   * @param expectedQuantity - Quantity the line should show, 0 if it should be gone, null if unknown
+   * @returns Promise resolving to what is not yet consistent, or null once the cart is
    */
-  async getTotalPrice(): Promise<number> {
-    logger.info('Getting total price');
+  private async findCartInconsistency(productName: string | null, expectedQuantity: number | null): Promise<string | null> {
+    const lines = await this.readCartLines();
+    const subtotals: Money[] = [];
+    let editedQuantity = 0;
     
-    // Try each selector for total price
-    for (const selector of this.totalPriceSelectors) {
-      try {
-        const totalElement = this.page.locator(selector);
-        if (await totalElement.count() > 0) {
-          const totalText = await totalElement.textContent();
-          if (totalText) {
-            const total = parseFloat(totalText.replace(/[^0-9.]/g, '') || '0');
-            logger.info(`Total price (${selector}): $${total}`);
-            return total;
-          }
+    try {
+      for (const line of lines) {
+        const quantity = parseInt(line.quantity || '0', 10);
+        const price = Money.parse(line.price);
+        const subtotal = Money.parse(line.subtotal);
+        
+        if (!subtotal.equals(price.multiply(quantity))) {
+          return `${line.name} shows a subtotal of ${subtotal} for ${quantity} x ${price}`;
+        }
+        if (line.name === productName) {
+          editedQuantity = quantity;
         }
-      } catch (error) {
-        // Try next selector
+        subtotals.push(subtotal);
+      }
+      
+      if (expectedQuantity !== null && editedQuantity !== expectedQuantity) {
+        return `${productName} shows a quantity of ${editedQuantity}, expected ${expectedQuantity}`;
+      }
+      if (lines.length === 0) {
+        return null;
+      }
+      
+      const sumOfSubtotals = Money.sum(subtotals);
+      const total = Money.parse(this.stripTotalLabel(await this.readText(this.page.locator(':root'), this.totalPrice)));
+      return total.equals(sumOfSubtotals) ? null : `the total ${total} is not the sum of the subtotals ${sumOfSubtotals}`;
+    } catch (error) {
+      if (error instanceof MoneyParseError) {
+        return error.message;
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the cart with what was bought in the shop
+   * @param ledger - Purchases recorded by ShopPage
+   * @returns Promise resolving to every difference between the ledger and the cart
+   */
+  @step()
+  async reconcileWith(ledger: PurchaseLedger): Promise<CartReconciliation> {
+    logger.info('Reconciling cart with purchase ledger');
+    const reconciliation = ledger.reconcile(await this.getCartItems(), await this.getTotalPrice());
+    
+    if (reconciliation.isReconciled) {
+      logger.info('Cart matches the purchase ledger');
+    } else {
+      logger.error(formatReconciliationReport(reconciliation));
     }
     
-    logger.error('Total price not found with any selector');
-    return 0;
+    return reconciliation;
   }
 
   /**
    * Calculate sum of all subtotals
    * @returns Promise resolving to sum of subtotals
    */
-  async calculateSumOfSubtotals(): Promise<number> {
+  @step()
+  async calculateSumOfSubtotals(): Promise<Money> {
     logger.info('Calculating sum of subtotals');
     const items = await this.getCartItems();
     
-    const sum = items.reduce((total, item) => total + item.subtotal, 0);
-    logger.info(`Sum of subtotals: $${sum}`);
+    const sum = Money.sum(items.map(item => item.subtotal));
+    logger.info(`Sum of subtotals: ${sum}`);
     
     return sum;
   }
@@ -238,6 +372,7 @@ export class CartPage extends BasePage {
    * Verify that subtotal for each product is correct (price * quantity)
    * @returns Promise resolving to verification results for each product
    */
+  @step()
   async verifySubtotals(): Promise<SubtotalVerificationResult[]> {
     logger.info('Verifying subtotals');
     const items = await this.getCartItems();
@@ -245,8 +380,8 @@ export class CartPage extends BasePage {
     const results: SubtotalVerificationResult[] = [];
     
     for (const item of items) {
-      const expectedSubtotal = parseFloat((item.price * item.quantity).toFixed(2));
-      const isCorrect = Math.abs(expectedSubtotal - item.subtotal) < 0.01; // Allow for small floating point differences
+      const expectedSubtotal = item.price.multiply(item.quantity);
+      const isCorrect = expectedSubtotal.equals(item.subtotal);
       
       results.push({
         productName: item.name,
@@ -260,7 +395,7 @@ export class CartPage extends BasePage {
       if (isCorrect) {
         logger.info(`Subtotal verification passed for ${item.name}`);
       } else {
-        logger.error(`Subtotal verification failed for ${item.name}: expected $${expectedSubtotal}, actual $${item.subtotal}`);
+        logger.error(`Subtotal verification failed for ${item.name}: expected ${expectedSubtotal}, actual ${item.subtotal}`);
       }
     }
     
@@ -271,12 +406,13 @@ export class CartPage extends BasePage {
    * Verify that total equals sum of subtotals
    * @returns Promise resolving to boolean indicating if total is correct
    */
+  @step()
   async verifyTotal(): Promise<TotalVerificationResult> {
     logger.info('Verifying total');
     const total = await this.getTotalPrice();
     const sumOfSubtotals = await this.calculateSumOfSubtotals();
     
-    const isCorrect = Math.abs(total - sumOfSubtotals) < 0.01; // Allow for small floating point differences
+    const isCorrect = total.equals(sumOfSubtotals);
     
     const result = {
       total,
@@ -285,9 +421,9 @@ export class CartPage extends BasePage {
     };
     
     if (isCorrect) {
-      logger.info(`Total verification passed: $${total} equals sum of subtotals $${sumOfSubtotals}`);
+      logger.info(`Total verification passed: ${total} equals sum of subtotals ${sumOfSubtotals}`);
     } else {
-      logger.error(`Total verification failed: expected $${sumOfSubtotals}, actual $${total}`);
+      logger.error(`Total verification failed: expected ${sumOfSubtotals}, actual ${total}`);
     }
     
     return result;
@@ -299,9 +435,9 @@ export class CartPage extends BasePage {
  */
 export interface CartItem {
   name: string;
-  price: number;
+  price: Money;
   quantity: number;
-  subtotal: number;
+  subtotal: Money;
 }
 
 /**
@@ -309,10 +445,10 @@ export interface CartItem {
  */
 export interface SubtotalVerificationResult {
   productName: string;
-  price: number;
+  price: Money;
   quantity: number;
-  actualSubtotal: number;
-  expectedSubtotal: number;
+  actualSubtotal: Money;
+  expectedSubtotal: Money;
   isCorrect: boolean;
 }
 
@@ -320,7 +456,17 @@ export interface SubtotalVerificationResult {
  * Interface for total verification result
  */
 export interface TotalVerificationResult {
-  total: number;
-  sumOfSubtotals: number;
+  total: Money;
+  sumOfSubtotals: Money;
   isCorrect: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for the text of a cart line as displayed
+ */
+interface CartLineText {
+  name: string;
+  price: string;
+  quantity: string;
+  subtotal: string;
+}
@@ -0,0 +1,205 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { logger } from '../utils/logger';
+import { environment } from '../config/environment';
+import { redactedValue } from '../utils/redaction';
+import { step, formatStepArgument } from '../utils/steps';
+import { Route } from '../config/routes';
+
+/**
+ * Page object for the Checkout page (delivery and payment details) and the order confirmation
+ */
+export class CheckoutPage extends BasePage {
+  // Card number
+  static readonly sensitiveSelectors = ['#card'];
+
+  // Form field selectors
+  private readonly fieldSelectors: Record<CheckoutField, string> = {
+    forename: '#forename',
+    surname: '#surname',
+    email: '#email',
+    address: '#address',
+    cardType: '#cardType',
+    cardNumber: '#card'
+  };
+  private readonly submitButton = '#checkout-submit-btn';
+
+  // Error message selectors
+  private readonly errorSelectors: Record<CheckoutField, string> = {
+    forename: '#forename-err',
+    surname: '#surname-err',
+    email: '#email-err',
+    address: '#address-err',
+    cardType: '#cardType-err',
+    cardNumber: '#card-err'
+  };
+
+  // Confirmation selectors
+  private readonly confirmationMessage = '.alert-success';
+  private readonly orderNumber = '.order-number';
+
+  /**
+   * Constructor for the CheckoutPage class
+   * @param page - Playwright page object
+   */
+  constructor(page: Page) {
+    super(page);
+  }
+
+  /**
+   * Navigate to the checkout page
+   */
+  @step()
+  async navigateToCheckout(): Promise<void> {
+    logger.info('Navigating to checkout page');
+    await this.gotoRoute(Route.Checkout);
+  }
+
+  /**
+   * Wait for the checkout form to be shown
+   */
+  @step()
+  async waitForCheckoutForm(): Promise<void> {
+    await this.waitForElement(this.submitButton);
+  }
+
+  /**
+   * Fill the delivery and payment form.
+   * Only the given fields are filled, so a test can leave any field empty.
+   * @param details - Values for the form fields
+   */
+  @step((_checkoutPage: CheckoutPage, details: Partial<CheckoutDetails>) =>
+    `fill checkout form ${formatStepArgument(details.cardNumber ? { ...details, cardNumber: redactedValue } : details)}`)
+  async fillCheckoutForm(details: Partial<CheckoutDetails>): Promise<void> {
+    logger.info('Filling checkout form');
+
+    for (const [field, value] of Object.entries(details) as [CheckoutField, string][]) {
+      if (value === undefined) {
+        continue;
+      }
+
+      if (field === 'cardType') {
+        logger.info(`Selecting card type: ${value}`);
+        await this.page.selectOption(this.fieldSelectors.cardType, value);
+      } else {
+        await this.fill(this.fieldSelectors[field], value);
+      }
+    }
+  }
+
+  /**
+   * Submit the order.
+   * Its time to confirmation is recorded when getOrderConfirmation sees the confirmation,
+   * and dropped when the validation errors are read or no confirmation shows.
+   */
+  @step()
+  async submitOrder(): Promise<void> {
+    logger.info('Submitting order');
+    await this.startPendingMeasurement('submit order', 'submit');
+    await this.click(this.submitButton);
+  }
+
+  /**
+   * Get all validation error messages
+   * @returns Promise resolving to array of error messages
+   */
+  @step()
+  async getValidationErrors(): Promise<string[]> {
+    logger.info('Getting checkout validation error messages');
+
+    const errorElements = this.page.locator(Object.values(this.errorSelectors).map(selector => `${selector}:visible`).join(', '));
+    const errors = (await errorElements.allTextContents())
+      .map(text => text.trim())
+      .filter(text => text.length > 0);
+
+    logger.info(`Found ${errors.length} checkout errors: ${errors.join(', ')}`);
+    if (errors.length > 0) {
+      this.discardPendingMeasurement('the order was rejected with validation errors');
+    }
+    return errors;
+  }
+
+  /**
+   * Check if a field's error is displayed
+   * @param field - Form field
+   * @returns Promise resolving to boolean indicating if error is displayed
+   */
+  @step()
+  async isFieldErrorDisplayed(field: CheckoutField): Promise<boolean> {
+    const isVisible = await this.page.isVisible(this.errorSelectors[field]);
+    logger.info(`${field} error displayed: ${isVisible}`);
+    return isVisible;
+  }
+
+  /**
+   * Get a field's error message
+   * @param field - Form field
+   * @returns Promise resolving to the error text, or null if no error is displayed
+   */
+  @step()
+  async getFieldError(field: CheckoutField): Promise<string | null> {
+    if (!await this.isFieldErrorDisplayed(field)) {
+      return null;
+    }
+    return (await this.getText(this.errorSelectors[field]))?.trim() || null;
+  }
+
+  /**
+   * Wait for the order confirmation and read it
+   * @param timeout - Maximum time to wait in milliseconds (default: the profile's submit timeout)
+   * @returns Promise resolving to the confirmation, or null if the order was not confirmed
+   */
+  @step()
+  async getOrderConfirmation(timeout: number = environment.submitTimeout): Promise<OrderConfirmation | null> {
+    try {
+      await this.page.waitForSelector(this.orderNumber, { state: 'visible', timeout });
+    } catch (error) {
+      logger.info('Order confirmation not found');
+      this.discardPendingMeasurement('no order confirmation was shown');
+      return null;
+    }
+    await this.finishPendingMeasurement();
+
+    const message = (await this.getText(this.confirmationMessage))?.trim() || '';
+    const orderNumber = (await this.getText(this.orderNumber))?.trim() || '';
+    logger.info(`Order confirmed: ${orderNumber}`);
+
+    return { message, orderNumber };
+  }
+
+  /**
+   * Check if the order confirmation is displayed
+   * @returns Promise resolving to boolean indicating if the order was confirmed
+   */
+  @step()
+  async isOrderConfirmed(): Promise<boolean> {
+    const isVisible = await this.page.isVisible(this.orderNumber);
+    logger.info(`Order confirmation displayed: ${isVisible}`);
+    return isVisible;
+  }
+}
+
+/**
+ * Fields of the delivery and payment form
+ */
+export type CheckoutField = 'forename' | 'surname' | 'email' | 'address' | 'cardType' | 'cardNumber';
+
+/**
+ * Interface for the delivery and payment details
+ */
+export interface CheckoutDetails {
+  forename: string;
+  surname: string;
+  email: string;
+  address: string;
+  cardType: string;
+  cardNumber: string;
+}
+
+/**
+ * Interface for the order confirmation
+ */
+export interface OrderConfirmation {
+  message: string;
+  orderNumber: string;
+}
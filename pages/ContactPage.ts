@@ -1,23 +1,34 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { BasePage, LocatorCandidates } from './BasePage';
 import { logger } from '../utils/logger';
+import { environment } from '../config/environment';
+import { step } from '../utils/steps';
+import { Route } from '../config/routes';
+import {
+  contactFields,
+  contactFormSchema,
+  ContactField,
+  ContactFormData,
+  ContactFormState,
+  FieldState
+} from '../models/ContactForm';
 
 /**
  * Page object for the Contact page
  */
 export class ContactPage extends BasePage {
-  // Form field selectors
-  private readonly forenameInput = '#forename';
-  private readonly surnameInput = '#surname';
-  private readonly emailInput = '#email';
-  private readonly telephoneInput = '#telephone';
-  private readonly messageTextarea = '#message';
+  // The success message greets the submitter by forename
+  static readonly visualCheckpoints = {
+    form: {},
+    'validation-errors': {},
+    success: { mask: ['.alert-success strong'] }
+  };
+
+  // Field and error selectors come from contactFormSchema
   private readonly submitButton = '.btn-contact';
-  
-  // Error message selectors - updated based on actual HTML structure
-  private readonly forenameError = '#forename-err';
-  private readonly emailError = '#email-err';
-  private readonly messageError = '#message-err';
+  private readonly fieldErrors = '.help-inline';
+  private readonly progressModal = '.popup .progress';
+  private readonly submissionError = '#submit-error';
 
   
   // Success message selector
@@ -35,76 +46,130 @@ export class ContactPage extends BasePage {
   /**
    * Navigate to the contact page
    */
+  @step()
   async navigateToContact(): Promise<void> {
     logger.info('Navigating to contact page');
-    await this.navigate('/#/contact');
+    await this.gotoRoute(Route.Contact);
   }
 
   /**
-   * Fill the contact form
-   * @param forename - Forename value
-   * @param surname - Surname value
-   * @param email - Email value
-   * @param telephone - Telephone value
-   * @param message - Message value
+   * Fill contact form fields. Every field given is overwritten, so an empty string clears it;
+   * fields left out keep their current value.
+   * Named fillForm rather than fill, which BasePage already defines for filling one selector.
+   * @param data - Values for the fields to fill
    */
-  async fillContactForm(
-    forename: string = '',
-    surname: string = '',
-    email: string = '',
-    telephone: string = '',
-    message: string = ''
-  ): Promise<void> {
-    logger.info('Filling contact form');
-    
-    if (forename) {
-      await this.fill(this.forenameInput, forename);
-    }
-    
-    if (surname) {
-      await this.fill(this.surnameInput, surname);
-    }
-    
-    if (email) {
-      await this.fill(this.emailInput, email);
-    }
-    
-    if (telephone) {
-      await this.fill(this.telephoneInput, telephone);
-    }
+  @step()
+  async fillForm(data: Partial<ContactFormData>): Promise<void> {
+    logger.info(`Filling contact form fields: ${Object.keys(data).join(', ')}`);
     
-    if (message) {
-      await this.fill(this.messageTextarea, message);
+    for (const field of contactFields) {
+      const value = data[field];
+      if (value !== undefined) {
+        await this.fill(contactFormSchema[field].selector, value);
+      }
     }
   }
 
   /**
-   * Submit the contact form
+   * Clear a contact form field
+   * @param field - Field to clear
+   */
+  @step()
+  async clear(field: ContactField): Promise<void> {
+    logger.info(`Clearing ${field}`);
+    await this.fill(contactFormSchema[field].selector, '');
+  }
+
+  /**
+   * Submit the contact form.
+   * Does not wait for the outcome; use waitForSubmissionOutcome afterwards, which also records
+   * how long a successful submission took.
    */
+  @step()
   async submitForm(): Promise<void> {
     logger.info('Submitting contact form');
+    await this.startPendingMeasurement('submit contact form', 'submit');
     await this.click(this.submitButton);
+  }
+
+  /**
+   * Wait for a submission to settle: either validation errors are shown, or the
+   * "Sending Feedback" progress modal has closed and the success alert or the send error is shown
+   * @param timeout - Maximum time to wait in milliseconds (default: the profile's submit timeout)
+   * @returns Promise resolving to the outcome of the submission
+   */
+  @step()
+  async waitForSubmissionOutcome(timeout: number = environment.submitTimeout): Promise<SubmissionOutcome> {
+    logger.info('Waiting for contact form submission outcome');
+    
+    const outcome = await this.page.waitForFunction(
+      ({ successMessage, fieldErrors, progressModal, submissionError }) => {
+        const isShown = (element: Element): boolean => (element as HTMLElement).offsetParent !== null;
+        
+        if (document.querySelector(progressModal)) {
+          return null;
+        }
+        if (Array.from(document.querySelectorAll(successMessage)).some(isShown)) {
+          return 'success';
+        }
+        if (Array.from(document.querySelectorAll(submissionError)).some(isShown)) {
+          return 'failed';
+        }
+        const errorShown = Array.from(document.querySelectorAll(fieldErrors))
+          .some(error => isShown(error) && (error.textContent || '').trim() !== '');
+        return errorShown ? 'invalid' : null;
+      },
+      {
+        successMessage: this.successMessage,
+        fieldErrors: this.fieldErrors,
+        progressModal: this.progressModal,
+        submissionError: this.submissionError
+      },
+      { timeout }
+    );
     
-    // Wait for potential page update after submission
-    await this.page.waitForTimeout(500);
+    const result = await outcome.jsonValue() as SubmissionOutcome;
+    logger.info(`Contact form submission outcome: ${result}`);
+    // Only a sent submission counts towards the submit budget; rejected and failed ones are not its timing
+    if (result === 'success') {
+      await this.finishPendingMeasurement();
+    } else {
+      this.discardPendingMeasurement(`the submission outcome was ${result}`);
+    }
+    return result;
+  }
+
+  /**
+   * Check if the "Sending Feedback" progress modal is showing
+   * @returns Promise resolving to boolean indicating if the feedback is still being sent
+   */
+  @step()
+  async isSendingFeedback(): Promise<boolean> {
+    const isVisible = await this.page.isVisible(this.progressModal);
+    logger.info(`Sending feedback: ${isVisible}`);
+    return isVisible;
+  }
+
+  /**
+   * Get the error shown when the feedback could not be sent
+   * @returns Promise resolving to the error text, or null if no error is displayed
+   */
+  @step()
+  async getSubmissionError(): Promise<string | null> {
+    if (!await this.page.isVisible(this.submissionError)) {
+      return null;
+    }
+    return (await this.getText(this.submissionError))?.trim() || null;
   }
 
   /**
-   * Get all validation error messages
+   * Get all validation error messages currently shown
    * @returns Promise resolving to array of error messages
    */
+  @step()
   async getValidationErrors(): Promise<string[]> {
     logger.info('Getting validation error messages');
     
-    // Wait for validation errors to appear
-    await this.page.waitForTimeout(500);
-    
-    // Check if we need to create error selectors dynamically
-    // For example, if errors appear in a different way after form submission
-    await this.page.waitForSelector('.control-group.error', { state: 'attached', timeout: 3000 }).catch(() => {
-      logger.info('No error control groups found');
-    });
-    
     const errorElements = this.page.locator('.help-inline:visible, .alert-error:visible');
     const count = await errorElements.count();
     
@@ -123,144 +188,84 @@ export class ContactPage extends BasePage {
   }
 
   /**
-   * Check if forename error is displayed
-   * @returns Promise resolving to boolean indicating if error is displayed
+   * Get the value and validation error of a contact form field
+   * @param field - Field to inspect
+   * @returns Promise resolving to the field's value and error state
    */
-  async isForenameErrorDisplayed(): Promise<boolean> {
-    // Look for error message in multiple possible locations
-    const errorSelectors = [
-      this.forenameError,
-      `${this.forenameInput} + .help-inline`,
-      `label[for="forename"] + .help-inline`,
-      `.control-group:has(${this.forenameInput}) .help-inline`
-    ];
-    
-    for (const selector of errorSelectors) {
-      try {
-        const isVisible = await this.page.isVisible(selector);
-        if (isVisible) {
-          logger.info(`Forename error displayed at selector: ${selector}`);
-          return true;
-        }
-      } catch (error) {
-        // Continue to next selector
-      }
-    }
-    
-    // Try one more approach - find any visible error in the forename control group
-    try {
-      const controlGroup = this.page.locator('.control-group', { has: this.page.locator(this.forenameInput) });
-      const hasError = await controlGroup.evaluate(el => el.classList.contains('error'));
-      if (hasError) {
-        const errorText = await controlGroup.locator('.help-inline').isVisible();
-        if (errorText) {
-          logger.info('Forename error displayed in control group');
-          return true;
-        }
-      }
-    } catch (error) {
-      // Ignore errors in this approach
-    }
+  @step()
+  async getFieldState(field: ContactField): Promise<FieldState> {
+    const value = await this.page.inputValue(contactFormSchema[field].selector);
+    const error = await this.resolveLocator(this.fieldErrorCandidates(field), { state: 'visible' });
+    const errorText = error ? (await error.first().textContent())?.trim() || null : null;
     
-    logger.info('Forename error not displayed');
-    return false;
+    logger.info(`${field} state: error ${error ? `"${errorText}"` : 'not displayed'}`);
+    return { value, errorVisible: error !== null, errorText };
   }
 
   /**
-   * Check if email error is displayed
-   * @returns Promise resolving to boolean indicating if error is displayed
+   * Get the value and validation error of every contact form field
+   * @returns Promise resolving to the state of each field
    */
-  async isEmailErrorDisplayed(): Promise<boolean> {
-    // Look for error message in multiple possible locations
-    const errorSelectors = [
-      this.emailError,
-      `${this.emailInput} + .help-inline`,
-      `label[for="email"] + .help-inline`,
-      `#email-group .help-inline`
-    ];
-    
-    for (const selector of errorSelectors) {
-      try {
-        const isVisible = await this.page.isVisible(selector);
-        if (isVisible) {
-          logger.info(`Email error displayed at selector: ${selector}`);
-          return true;
-        }
-      } catch (error) {
-        // Continue to next selector
-      }
+  @step()
+  async getFormState(): Promise<ContactFormState> {
+    const state = {} as ContactFormState;
+    for (const field of contactFields) {
+      state[field] = await this.getFieldState(field);
     }
-    
-    // Try one more approach - find any visible error in the email control group
-    try {
-      const controlGroup = this.page.locator('.control-group', { has: this.page.locator(this.emailInput) });
-      const hasError = await controlGroup.evaluate(el => el.classList.contains('error'));
-      if (hasError) {
-        const errorText = await controlGroup.locator('.help-inline').isVisible();
-        if (errorText) {
-          logger.info('Email error displayed in control group');
-          return true;
-        }
-      }
-    } catch (error) {
-      // Ignore errors in this approach
+    return state;
+  }
+
+  /**
+   * Get the current value of every contact form field
+   * @returns Promise resolving to the field values
+   */
+  @step()
+  async getFormValues(): Promise<ContactFormData> {
+    const values = {} as ContactFormData;
+    for (const field of contactFields) {
+      values[field] = await this.page.inputValue(contactFormSchema[field].selector);
     }
-    
-    logger.info('Email error not displayed');
-    return false;
+    return values;
   }
 
   /**
-   * Check if message error is displayed
+   * Check if a field's validation error is displayed
+   * @param field - Field to check
    * @returns Promise resolving to boolean indicating if error is displayed
    */
-  async isMessageErrorDisplayed(): Promise<boolean> {
-    // Look for error message in multiple possible locations
-    const errorSelectors = [
-      this.messageError,
-      `${this.messageTextarea} + .help-inline`,
-      `label[for="message"] + .help-inline`,
-      `#message-group .help-inline`
-    ];
-    
-    for (const selector of errorSelectors) {
-      try {
-        const isVisible = await this.page.isVisible(selector);
-        if (isVisible) {
-          logger.info(`Message error displayed at selector: ${selector}`);
-          return true;
-        }
-      } catch (error) {
-        // Continue to next selector
-      }
-    }
-    
-    // Try one more approach - find any visible error in the message control group
-    try {
-      const controlGroup = this.page.locator('.control-group', { has: this.page.locator(this.messageTextarea) });
-      const hasError = await controlGroup.evaluate(el => el.classList.contains('error'));
-      if (hasError) {
-        const errorText = await controlGroup.locator('.help-inline').isVisible();
-        if (errorText) {
-          logger.info('Message error displayed in control group');
-          return true;
-        }
-      }
-    } catch (error) {
-      // Ignore errors in this approach
-    }
-    
-    logger.info('Message error not displayed');
-    return false;
+  @step()
+  async isFieldErrorDisplayed(field: ContactField): Promise<boolean> {
+    return (await this.getFieldState(field)).errorVisible;
+  }
+
+  /**
+   * Build the ranked candidate selectors for a field's error message:
+   * the field's own error element first, then positions relative to the field
+   * @param field - Field whose error message to find
+   * @returns Candidate selectors for the field's error message
+   */
+  private fieldErrorCandidates(field: ContactField): LocatorCandidates {
+    const { selector, errorSelector } = contactFormSchema[field];
+    return {
+      name: `${field} error`,
+      selectors: [
+        errorSelector,
+        `${selector} + .help-inline`,
+        `label[for="${field}"] + .help-inline`,
+        `#${field}-group .help-inline`,
+        `.control-group.error:has(${selector}) .help-inline`
+      ]
+    };
   }
 
   /**
    * Get success message
    * @returns Promise resolving to the success message text or null
    */
+  @step()
   async getSuccessMessage(): Promise<string | null> {
     try {
-      await this.page.waitForSelector(this.successMessage, { state: 'visible', timeout: 5000 });
+      await this.page.waitForSelector(this.successMessage, { state: 'visible', timeout: environment.actionTimeout });
       const message = await this.getText(this.successMessage);
       logger.info(`Success message: ${message}`);
       return message;
@@ -274,9 +279,15 @@ export class ContactPage extends BasePage {
    * Check if success message is displayed
    * @returns Promise resolving to boolean indicating if success message is displayed
    */
+  @step()
   async isSuccessMessageDisplayed(): Promise<boolean> {
     const isVisible = await this.page.isVisible(this.successMessage);
     logger.info(`Success message displayed: ${isVisible}`);
     return isVisible;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * How a contact form submission ended
+ */
+export type SubmissionOutcome = 'success' | 'invalid' | 'failed';
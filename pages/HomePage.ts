@@ -1,11 +1,17 @@
 import { Page } from '@playwright/test';
 import { BasePage } from './BasePage';
 import { logger } from '../utils/logger';
+import { step } from '../utils/steps';
+import { Route } from '../config/routes';
 
 /**
  * Page object for the Home page
  */
 export class HomePage extends BasePage {
+  static readonly visualCheckpoints = {
+    home: {}
+  };
+
   // Navigation selectors from the HTML
 
   private readonly shopNavLink = '#nav-shop';
@@ -26,52 +32,57 @@ export class HomePage extends BasePage {
   /**
    * Navigate to the home page
    */
+  @step()
   async navigateToHome(): Promise<void> {
     logger.info('Navigating to home page');
-    await this.navigate('/');
+    await this.gotoRoute(Route.Home);
   }
 
   /**
    * Navigate to the shop page
    */
+  @step()
   async navigateToShop(): Promise<void> {
     logger.info('Navigating to shop page');
-    await this.click(this.shopNavLink);
-    
-    // Wait for navigation to complete
-    await this.page.waitForURL('**/shop');
+    await this.measure('navigate to shop', 'navigation', async () => {
+      await this.clickNavLink(this.shopNavLink);
+      await this.waitForRoute(Route.Shop);
+    });
   }
 
   /**
    * Navigate to the contact page
    */
+  @step()
   async navigateToContact(): Promise<void> {
     logger.info('Navigating to contact page');
-    await this.click(this.contactNavLink);
-    
-    // Wait for navigation to complete
-    await this.page.waitForURL('**/contact');
+    await this.measure('navigate to contact', 'navigation', async () => {
+      await this.clickNavLink(this.contactNavLink);
+      await this.waitForRoute(Route.Contact);
+    });
   }
 
   /**
    * Navigate to the cart page
    */
+  @step()
   async navigateToCart(): Promise<void> {
     logger.info('Navigating to cart page');
-    await this.click(this.cartNavLink);
-    
-    // Wait for navigation to complete
-    await this.page.waitForURL('**/cart');
+    await this.measure('navigate to cart', 'navigation', async () => {
+      await this.clickNavLink(this.cartNavLink);
+      await this.waitForRoute(Route.Cart);
+    });
   }
 
   /**
    * Click the Start Shopping button
    */
+  @step()
   async clickStartShopping(): Promise<void> {
     logger.info('Clicking Start Shopping button');
-    await this.click(this.startShoppingButton);
-    
-    // Wait for navigation to complete
-    await this.page.waitForURL('**/shop');
+    await this.measure('start shopping', 'navigation', async () => {
+      await this.click(this.startShoppingButton);
+      await this.waitForRoute(Route.Shop);
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { logger } from '../utils/logger';
+import { environment } from '../config/environment';
+import { step } from '../utils/steps';
+
+/**
+ * Page object for the login modal opened from the navigation bar
+ */
+export class LoginPage extends BasePage {
+  static readonly sensitiveSelectors = ['#loginPassword'];
+
+  // Navigation selectors
+  private readonly loginNavLink = '#nav-login';
+  private readonly logoutNavLink = '#nav-logout';
+  private readonly userGreeting = '#nav-user';
+  private readonly userName = '#nav-user .user';
+
+  // Modal selectors
+  private readonly loginModal = '.popup:has(#loginUserName)';
+  private readonly usernameInput = '#loginUserName';
+  private readonly passwordInput = '#loginPassword';
+  private readonly submitButton = '.popup .btn-primary';
+  private readonly cancelButton = '.popup .btn-cancel';
+
+  // Error message selectors
+  private readonly loginError = '#login-error';
+  private readonly usernameError = '#loginUserName-err';
+  private readonly passwordError = '#loginPassword-err';
+
+  /**
+   * Constructor for the LoginPage class
+   * @param page - Playwright page object
+   */
+  constructor(page: Page) {
+    super(page);
+  }
+
+  /**
+   * Open the login modal from the navigation bar
+   */
+  @step()
+  async openLoginModal(): Promise<void> {
+    logger.info('Opening login modal');
+    await this.clickNavLink(this.loginNavLink);
+    await this.waitForElement(this.loginModal);
+  }
+
+  /**
+   * Log in through the login modal, opening it first if needed.
+   * Does not wait for the outcome; use isLoggedIn or getLoginError afterwards.
+   * @param username - Username
+   * @param password - Password
+   */
+  @step('log in as {0}')
+  async login(username: string, password: string): Promise<void> {
+    logger.info(`Logging in as: ${username}`);
+
+    if (!await this.isVisible(this.loginModal)) {
+      await this.openLoginModal();
+    }
+
+    await this.fill(this.usernameInput, username);
+    await this.fill(this.passwordInput, password);
+    await this.click(this.submitButton);
+  }
+
+  /**
+   * Close the login modal without logging in
+   */
+  @step()
+  async cancel(): Promise<void> {
+    logger.info('Cancelling login');
+    await this.click(this.cancelButton);
+    await this.page.waitForSelector(this.loginModal, { state: 'detached' });
+  }
+
+  /**
+   * Log out from the navigation bar
+   */
+  @step()
+  async logout(): Promise<void> {
+    logger.info('Logging out');
+    await this.clickNavLink(this.logoutNavLink);
+    await this.page.waitForSelector(this.loginNavLink, { state: 'visible' });
+  }
+
+  /**
+   * Wait for the logged-in greeting to appear
+   * @param timeout - Maximum time to wait in milliseconds (default: the profile's action timeout)
+   * @returns Promise resolving to boolean indicating if the user is logged in
+   */
+  @step()
+  async isLoggedIn(timeout: number = environment.actionTimeout): Promise<boolean> {
+    await this.expandNavbar();
+    try {
+      await this.page.waitForSelector(this.userGreeting, { state: 'visible', timeout });
+      logger.info('User is logged in');
+      return true;
+    } catch (error) {
+      logger.info('User is not logged in');
+      return false;
+    }
+  }
+
+  /**
+   * Get the logged-in greeting, e.g. "Hi, testuser"
+   * @returns Promise resolving to the greeting, or null if nobody is logged in
+   */
+  @step()
+  async getGreeting(): Promise<string | null> {
+    await this.expandNavbar();
+    if (!await this.isVisible(this.userGreeting)) {
+      return null;
+    }
+    return (await this.getText(this.userGreeting))?.trim() || null;
+  }
+
+  /**
+   * Get the name of the logged-in user
+   * @returns Promise resolving to the username, or null if nobody is logged in
+   */
+  @step()
+  async getLoggedInUser(): Promise<string | null> {
+    await this.expandNavbar();
+    if (!await this.isVisible(this.userGreeting)) {
+      return null;
+    }
+    return (await this.getText(this.userName))?.trim() || null;
+  }
+
+  /**
+   * Get the error shown for rejected credentials
+   * @returns Promise resolving to the error text, or null if no error is displayed
+   */
+  @step()
+  async getLoginError(): Promise<string | null> {
+    try {
+      await this.page.waitForSelector(this.loginError, { state: 'visible', timeout: environment.actionTimeout });
+      return (await this.getText(this.loginError))?.trim() || null;
+    } catch (error) {
+      logger.info('Login error not displayed');
+      return null;
+    }
+  }
+
+  /**
+   * Check if the username required error is displayed
+   * @returns Promise resolving to boolean indicating if error is displayed
+   */
+  @step()
+  async isUsernameErrorDisplayed(): Promise<boolean> {
+    const isVisible = await this.isVisible(this.usernameError);
+    logger.info(`Username error displayed: ${isVisible}`);
+    return isVisible;
+  }
+
+  /**
+   * Check if the password required error is displayed
+   * @returns Promise resolving to boolean indicating if error is displayed
+   */
+  @step()
+  async isPasswordErrorDisplayed(): Promise<boolean> {
+    const isVisible = await this.isVisible(this.passwordError);
+    logger.info(`Password error displayed: ${isVisible}`);
+    return isVisible;
+  }
+}
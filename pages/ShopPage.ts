@@ -1,40 +1,31 @@
-import { Page } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
 import { BasePage } from './BasePage';
 import { logger } from '../utils/logger';
+import { step } from '../utils/steps';
+import { Route } from '../config/routes';
+import { environment } from '../config/environment';
+import { runCache } from '../utils/runCache';
+import { ProductCatalog, CatalogProduct } from '../models/ProductCatalog';
+import { Money } from '../models/Money';
+import { PurchaseLedger, PurchasePriceChangedError } from '../models/PurchaseLedger';
 
 /**
  * Page object for the Shop page
  */
 export class ShopPage extends BasePage {
+  static readonly visualCheckpoints = {
+    products: {}
+  };
+
   // Product selectors
   private readonly productCards = '.product';
   private readonly productTitle = '.product-title';
   private readonly productPrice = '.product-price';
   private readonly buyButton = '.btn-success';
+  private readonly cartCount = '.cart-count';
   
-  // Product IDs from the actual HTML
-  private readonly productIds = {
-    'Teddy Bear': 'product-1',
-    'Stuffed Frog': 'product-2',
-    'Handmade Doll': 'product-3',
-    'Fluffy Bunny': 'product-4',
-    'Smiley Bear': 'product-5',
-    'Funny Cow': 'product-6',
-    'Valentine Bear': 'product-7',
-    'Smiley Face': 'product-8'
-  };
-  
-  // Product prices from the actual HTML
-  private readonly productPrices = {
-    'Teddy Bear': 12.99,
-    'Stuffed Frog': 10.99,
-    'Handmade Doll': 10.99,
-    'Fluffy Bunny': 9.99,
-    'Smiley Bear': 14.99,
-    'Funny Cow': 10.99,
-    'Valentine Bear': 14.99,
-    'Smiley Face': 9.99
-  };
+  // Purchases made through buyProduct, for reconciling the cart
+  readonly ledger = new PurchaseLedger();
   
   /**
    * Constructor for the ShopPage class
@@ -47,19 +38,17 @@ export class ShopPage extends BasePage {
   /**
    * Navigate to the shop page
    */
+  @step()
   async navigateToShop(): Promise<void> {
     logger.info('Navigating to shop page');
-    await this.navigate('/#/shop');
-    
-    // Wait for products to load
-    await this.page.waitForSelector(this.productCards, { timeout: 10000 })
-      .catch(() => logger.warn('Products not loaded within timeout'));
+    await this.gotoRoute(Route.Shop);
   }
 
   /**
    * Get all products
    * @returns Promise resolving to array of product names
    */
+  @step()
   async getProducts(): Promise<string[]> {
     logger.info('Getting all products');
     const productElements = this.page.locator(this.productCards);
@@ -79,34 +68,98 @@ export class ShopPage extends BasePage {
   }
 
   /**
-   * Get price of a specific product
+   * Get the product catalog listed on the shop page.
+   * The catalog is scraped once per test run and shared by every worker; the scrape navigates to the
+   * shop if no products are showing.
+   * @param refresh - Scrape again even if this run already has a catalog
+   * @returns Promise resolving to the product catalog
+   */
+  @step()
+  async getCatalog(refresh: boolean = false): Promise<ProductCatalog> {
+    const cacheName = `catalog-${environment.name}`;
+    if (refresh) {
+      const catalog = await this.scrapeCatalog();
+      runCache.set(cacheName, catalog.products);
+      return catalog;
+    }
+    
+    const products = await runCache.get(cacheName, async () => (await this.scrapeCatalog()).products, environment.actionTimeout);
+    logger.info(`Catalog of ${products.length} products`);
+    return new ProductCatalog(products);
+  }
+
+  /**
+   * Read every product card on the current page
+   * @returns Promise resolving to the scraped catalog
+   */
+  private async scrapeCatalog(): Promise<ProductCatalog> {
+    if (await this.page.locator(this.productCards).count() === 0) {
+      await this.navigateToShop();
+    }
+    
+    logger.info('Scraping product catalog from shop page');
+    const cards = await this.page.locator(this.productCards).evaluateAll(
+      (elements, selectors) => elements.map(element => {
+        const buyButton = element.querySelector(selectors.buyButton);
+        return {
+          id: element.id,
+          title: element.querySelector(selectors.productTitle)?.textContent?.trim() || '',
+          priceText: element.querySelector(selectors.productPrice)?.textContent || '',
+          available: buyButton !== null
+            && !buyButton.classList.contains('disabled')
+            && !buyButton.hasAttribute('disabled')
+        };
+      }),
+      { productTitle: this.productTitle, productPrice: this.productPrice, buyButton: this.buyButton }
+    );
+    
+    const products: CatalogProduct[] = cards.map(card => ({
+      id: card.id,
+      title: card.title,
+      price: Money.parse(card.priceText).toDollars(),
+      available: card.available
+    }));
+    
+    logger.info(`Scraped ${products.length} products: ${products.map(product => product.title).join(', ')}`);
+    return new ProductCatalog(products);
+  }
+
+  /**
+   * Get the card for a product by its exact title
+   * @param productName - Name of the product
+   * @returns Locator for the product card
+   */
+  private productCard(productName: string): Locator {
+    const escapedName = productName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.page.locator(this.productCards).filter({
+      has: this.page.locator(this.productTitle, { hasText: new RegExp(`^\\s*${escapedName}\\s*$`) })
+    });
+  }
+
+  /**
+   * Get price of a specific product as shown on the shop page
    * @param productName - Name of the product
    * @returns Promise resolving to the product price
    */
-  async getProductPrice(productName: string): Promise<number> {
+  @step()
+  async getProductPrice(productName: string): Promise<Money> {
     logger.info(`Getting price for product: ${productName}`);
     
-    // Try to get from known prices first
-    if (productName in this.productPrices) {
-      logger.info(`Using known price for ${productName}: $${this.productPrices[productName as keyof typeof this.productPrices]}`);
-      return this.productPrices[productName as keyof typeof this.productPrices];
-    }
-    
-    // Otherwise look it up from the page
     try {
-      const productId = this.productIds[productName as keyof typeof this.productIds];
-      if (productId) {
-        const priceElement = this.page.locator(`#${productId} ${this.productPrice}`);
-        const priceText = await priceElement.textContent();
-        
-        if (priceText) {
-          const price = parseFloat(priceText.replace(/[^0-9.]/g, ''));
-          logger.info(`Price for ${productName}: $${price}`);
-          return price;
-        }
+      const priceText = await this.productCard(productName).locator(this.productPrice).textContent();
+      if (!priceText) {
+        throw new Error(`Price not found for: ${productName}`);
+      }
+      
+      const price = Money.parse(priceText);
+      logger.info(`Price for ${productName}: ${price}`);
+      
+      const expected = environment.catalog.find(product => product.title === productName);
+      if (expected && !Money.fromDollars(expected.price).equals(price)) {
+        logger.warn(`Price for ${productName} differs from baseline: expected $${expected.price}, shop shows ${price}`);
       }
       
-      throw new Error(`Product ID not found for: ${productName}`);
+      return price;
     } catch (error) {
       logger.error(`Error getting price for ${productName}: ${error}`);
       throw error;
@@ -114,25 +167,19 @@ export class ShopPage extends BasePage {
   }
 
   /**
-   * Buy a specific product
+   * Buy a specific product, recording the purchase in the ledger
    * @param productName - Name of the product to buy
    * @param quantity - Quantity to buy (default: 1)
    * @returns Promise resolving to boolean indicating if product was found and bought
+   * @throws PurchasePriceChangedError if the product was bought earlier at a different price
    */
+  @step()
   async buyProduct(productName: string, quantity: number = 1): Promise<boolean> {
     logger.info(`Buying ${quantity} of ${productName}`);
     
     try {
-      // Get the product ID
-      const productId = this.productIds[productName as keyof typeof this.productIds];
-      
-      if (!productId) {
-        logger.error(`Product ID not found for: ${productName}`);
-        return false;
-      }
-      
-      // Get the buy button
-      const buyButtonElement = this.page.locator(`#${productId} ${this.buyButton}`);
+      // Get the buy button from the product's card
+      const buyButtonElement = this.productCard(productName).locator(this.buyButton);
       
       // Check if button exists
       if (await buyButtonElement.count() === 0) {
@@ -140,32 +187,41 @@ export class ShopPage extends BasePage {
         return false;
       }
       
+      // The price seen on the shop is what the cart is reconciled against
+      const unitPrice = await this.getProductPrice(productName);
+      
       // Get the initial cart count
       const initialCartCount = await this.getCartCount();
       logger.info(`Initial cart count: ${initialCartCount}`);
       
-      // Click the buy button the specified number of times
+      // Click the buy button the specified number of times, waiting for the cart count to follow each click
       for (let i = 0; i < quantity; i++) {
         logger.info(`Buying ${productName} (${i + 1}/${quantity})`);
-        await buyButtonElement.click();
-        // Short wait to ensure cart is updated
-        await this.page.waitForTimeout(300);
+        await this.measure(`buy ${productName}`, 'buy', async () => {
+          await buyButtonElement.click();
+          await this.waitForCartCount(initialCartCount + i + 1);
+        });
       }
       
       // Get the updated cart count to verify
       const updatedCartCount = await this.getCartCount();
       logger.info(`Updated cart count: ${updatedCartCount}`);
       
-      const success = updatedCartCount >= initialCartCount + quantity;
+      const success = updatedCartCount === initialCartCount + quantity;
       
       if (success) {
+        this.ledger.record(productName, unitPrice, quantity);
         logger.info(`Successfully bought ${quantity} of ${productName}`);
       } else {
-        logger.error(`Failed to verify cart count after buying. Expected at least: ${initialCartCount + quantity}, Actual: ${updatedCartCount}`);
+        logger.error(`Failed to verify cart count after buying. Expected: ${initialCartCount + quantity}, Actual: ${updatedCartCount}`);
       }
       
       return success;
     } catch (error) {
+      // A repriced product is drift the test must report, not a failed click
+      if (error instanceof PurchasePriceChangedError) {
+        throw error;
+      }
       logger.error(`Error buying ${productName}: ${error}`);
       return false;
     }
@@ -175,9 +231,10 @@ export class ShopPage extends BasePage {
    * Get the current cart count
    * @returns Promise resolving to the cart count
    */
+  @step()
   async getCartCount(): Promise<number> {
     try {
-      const cartCountElement = this.page.locator('.cart-count');
+      const cartCountElement = this.page.locator(this.cartCount);
       const cartCountText = await cartCountElement.textContent() || '0';
       return parseInt(cartCountText, 10);
     } catch (error) {
@@ -185,4 +242,18 @@ export class ShopPage extends BasePage {
       return 0;
     }
   }
+  /**
+   * Wait for the navigation bar's cart count to show a number of items
+   * @param count - Expected number of items in the cart
+   * @param timeout - Maximum time to wait in milliseconds (default: the profile's action timeout)
+   */
+  @step()
+  async waitForCartCount(count: number, timeout: number = environment.actionTimeout): Promise<void> {
+    await this.page.waitForFunction(
+      ({ selector, count }) => (document.querySelector(selector)?.textContent || '').trim() === String(count),
+      { selector: this.cartCount, count },
+      { timeout }
+    );
+  }
+
 }
\ No newline at end of file
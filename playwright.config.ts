@@ -1,39 +1,78 @@
 import { defineConfig, devices } from '@playwright/test';
+import { environment } from './config/environment';
+import type { PageOptions } from './fixtures';
 
-export default defineConfig({
+export default defineConfig<PageOptions>({
   testDir: './tests/specs',
+  globalSetup: require.resolve('./global-setup'),
+  globalTeardown: require.resolve('./global-teardown'),
   timeout: 30 * 1000,
   expect: {
-    timeout: 5000
+    timeout: environment.expectTimeout,
+    // Visual baselines are kept per profile, browser project and OS, since each renders differently
+    toHaveScreenshot: {
+      pathTemplate: `{testDir}/../visual-baselines/${environment.name}/{projectName}/{platform}/{arg}{ext}`
+    },
+    // Playwright computes the accessibility tree itself, the same in every browser, so ARIA baselines are kept per profile only
+    toMatchAriaSnapshot: {
+      pathTemplate: `{testDir}/../aria-baselines/${environment.name}/{arg}{ext}`
+    }
   },
   fullyParallel: false,
   forbidOnly: !!process.env.CI,
-  retries: process.env.CI ? 2 : 0,
+  retries: environment.retries,
   workers: process.env.CI ? 2 : 1,
   reporter: [
     ['html'],
     ['list'],
-    ['junit', { outputFile: 'test-results/junit-report.xml' }]
+    ['junit', { outputFile: 'test-results/junit-report.xml' }],
+    // History is kept per profile, like the other baselines
+    ['./reporters/flakinessReporter.ts', { historyFile: `test-history/${environment.name}.json` }],
+    ['./reporters/performanceReporter.ts', { historyFile: `test-history/${environment.name}-performance.json` }]
   ],
   use: {
-    baseURL: 'http://jupiter.cloud.planittesting.com',
-    actionTimeout: 0,
-    trace: 'on-first-retry',
+    baseURL: environment.baseUrl,
+    actionTimeout: environment.actionTimeout,
+    // Sensitive fills (see BasePage.sensitiveSelectors) hand their value to the page, and traces record it
+    // as an action parameter, so no traces are kept for runs given a real password through LOGIN_PASSWORD
+    trace: process.env.LOGIN_PASSWORD ? 'off' : 'on-first-retry',
     video: 'on-first-retry',
-    screenshot: 'only-on-failure'
+    // Failure screenshots are taken by the failureScreenshot fixture, which masks sensitive inputs
+    screenshot: 'off'
   },
+  // The local profile runs against the bundled stand-in app
+  webServer: environment.startMockApp ? {
+    command: 'npm run mock-app',
+    url: `${environment.baseUrl}/health`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 30 * 1000
+  } : undefined,
+  // Desktop browsers plus emulated phone and tablet; tests can limit themselves to form factors with tags
   projects: [
     {
       name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
+      use: { ...devices['Desktop Chrome'], formFactor: 'desktop' },
+    },
+    {
+      name: 'firefox',
+      use: { ...devices['Desktop Firefox'], formFactor: 'desktop' },
+    },
+    {
+      name: 'webkit',
+      use: { ...devices['Desktop Safari'], formFactor: 'desktop' },
+    },
+    {
+      name: 'phone',
+      use: { ...devices['Pixel 7'], formFactor: 'phone' },
+    },
+    {
+      name: 'tablet',
+      use: { ...devices['iPad (gen 7)'], formFactor: 'tablet' },
+    },
+    // Browser-free tests of the models and utilities; they never open a page
+    {
+      name: 'unit',
+      testDir: './tests/unit',
     },
-    // {
-    //   name: 'firefox',
-    //   use: { ...devices['Desktop Firefox'] },
-    // },
-    // {
-    //   name: 'webkit',
-    //   use: { ...devices['Desktop Safari'] },
-    // },
   ],
 });
\ No newline at end of file
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, FullConfig, Suite, TestCase } from '@playwright/test/reporter';
+import { TestHistory, TestExecution, SampleOutcome, formatFlakinessSummary } from '../models/TestHistory';
+
+/**
+ * Records every test's outcome, retries and duration into a history file that persists across runs,
+ * and prints the tests that passed only on retry, changed behaviour or have a high flakiness score.
+ * Each --repeat-each repetition is recorded as another sample of the same test.
+ */
+class FlakinessReporter implements Reporter {
+  private readonly historyFile: string;
+  private readonly summaryFile: string;
+  private readonly maxRuns: number;
+  private readonly startedAt = new Date();
+  private rootSuite: Suite | null = null;
+
+  /**
+   * Constructor for the FlakinessReporter class
+   * @param options - Reporter options from playwright.config.ts
+   */
+  constructor(options: FlakinessReporterOptions = {}) {
+    this.historyFile = options.historyFile || 'test-history/history.json';
+    this.summaryFile = options.summaryFile || 'test-results/flakiness-summary.txt';
+    this.maxRuns = options.maxRuns || 30;
+  }
+
+  /**
+   * Keep the suite so every test's final outcome can be read once the run ends
+   * @param _config - Resolved Playwright config
+   * @param suite - Root suite of the run
+   */
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.rootSuite = suite;
+  }
+
+  /**
+   * Add the run to the history and write the summary
+   */
+  onEnd(): void {
+    const executions = (this.rootSuite?.allTests() || [])
+      .map(test => this.toExecution(test))
+      .filter((execution): execution is TestExecution => execution !== null);
+
+    // Nothing ran, e.g. --list or every test skipped
+    if (executions.length === 0) {
+      return;
+    }
+
+    const history = TestHistory.load(this.historyFile);
+    history.recordRun(this.startedAt.toISOString(), executions, this.maxRuns);
+    history.save(this.historyFile);
+
+    const summary = formatFlakinessSummary(history.stats());
+    fs.mkdirSync(path.dirname(this.summaryFile), { recursive: true });
+    fs.writeFileSync(this.summaryFile, `${summary}\n`);
+    console.log(`\n${summary}\n\nHistory: ${this.historyFile}`);
+  }
+
+  /**
+   * Only the end-of-run summary is printed, so this does not replace the terminal reporter
+   * @returns False
+   */
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Turn a finished test into a history sample
+   * @param test - Test case, with one result per attempt
+   * @returns The sample, or null if the test did not run to completion
+   */
+  private toExecution(test: TestCase): TestExecution | null {
+    const lastResult = test.results[test.results.length - 1];
+    if (!lastResult || lastResult.status === 'skipped' || lastResult.status === 'interrupted') {
+      return null;
+    }
+
+    const outcomes: Record<string, SampleOutcome> = { expected: 'passed', flaky: 'flaky', unexpected: 'failed' };
+    const [, project, file, ...titles] = test.titlePath();
+
+    return {
+      test: {
+        key: [project, file, ...titles].join(' › '),
+        project,
+        file,
+        title: titles.join(' › ')
+      },
+      sample: {
+        outcome: outcomes[test.outcome()],
+        attempts: test.results.length,
+        durationMs: test.results.reduce((total, result) => total + result.duration, 0)
+      }
+    };
+  }
+}
+
+/**
+ * Options for the flakiness reporter
+ */
+export interface FlakinessReporterOptions {
+  // History kept across runs (default: test-history/history.json)
+  historyFile?: string;
+  // Summary written after each run (default: test-results/flakiness-summary.txt)
+  summaryFile?: string;
+  // Number of most recent runs kept in the history (default: 30)
+  maxRuns?: number;
+}
+
+export default FlakinessReporter;
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { PerformanceMeasurement } from '../utils/performanceMetrics';
+import { PerformanceHistory, ProjectMeasurement, formatPerformanceSummary } from '../models/PerformanceHistory';
+
+/**
+ * Collects the performance-metrics attachment of every test into a per-route summary of the run,
+ * and keeps the summaries of past runs so each route's time to ready can be compared with them.
+ */
+class PerformanceReporter implements Reporter {
+  private readonly historyFile: string;
+  private readonly summaryFile: string;
+  private readonly maxRuns: number;
+  private readonly startedAt = new Date();
+  private readonly measurements: ProjectMeasurement[] = [];
+
+  /**
+   * Constructor for the PerformanceReporter class
+   * @param options - Reporter options from playwright.config.ts
+   */
+  constructor(options: PerformanceReporterOptions = {}) {
+    this.historyFile = options.historyFile || 'test-history/performance.json';
+    this.summaryFile = options.summaryFile || 'test-results/performance-summary.txt';
+    this.maxRuns = options.maxRuns || 30;
+  }
+
+  /**
+   * Collect the measurements a test attached
+   * @param test - Test case
+   * @param result - Result of this attempt
+   */
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find(candidate => candidate.name === 'performance-metrics' && candidate.body);
+    if (!attachment?.body) {
+      return;
+    }
+
+    const project = test.titlePath()[1];
+    const { measurements } = JSON.parse(attachment.body.toString('utf-8')) as { measurements: PerformanceMeasurement[] };
+    this.measurements.push(...measurements.map(measurement => ({ project, measurement })));
+  }
+
+  /**
+   * Add the run to the history and write the summary
+   */
+  onEnd(): void {
+    if (this.measurements.length === 0) {
+      return;
+    }
+
+    const history = PerformanceHistory.load(this.historyFile);
+    history.recordRun(this.startedAt.toISOString(), this.measurements, this.maxRuns);
+    history.save(this.historyFile);
+
+    const summary = formatPerformanceSummary(history.trends());
+    fs.mkdirSync(path.dirname(this.summaryFile), { recursive: true });
+    fs.writeFileSync(this.summaryFile, `${summary}\n`);
+    console.log(`\n${summary}\n\nHistory: ${this.historyFile}`);
+  }
+
+  /**
+   * Only the end-of-run summary is printed, so this does not replace the terminal reporter
+   * @returns False
+   */
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Options for the performance reporter
+ */
+export interface PerformanceReporterOptions {
+  // History kept across runs (default: test-history/performance.json)
+  historyFile?: string;
+  // Summary written after each run (default: test-results/performance-summary.txt)
+  summaryFile?: string;
+  // Number of most recent runs kept in the history (default: 30)
+  maxRuns?: number;
+}
+
+export default PerformanceReporter;
@@ -0,0 +1,24 @@
+import { spawnSync } from 'child_process';
+import { environment } from '../config/environment';
+import { logger } from '../utils/logger';
+
+/**
+ * Run Playwright against a named environment profile.
+ * Playwright rejects unknown flags, so --env is consumed here (resolving the profile
+ * fails fast if it is invalid) and handed on to Playwright as TEST_ENV.
+ *
+ * Usage: npm run test:env -- --env staging [playwright test args]
+ */
+const args = process.argv.slice(2);
+const playwrightArgs = args.filter((arg, index) =>
+  arg !== '--env' && !arg.startsWith('--env=') && args[index - 1] !== '--env'
+);
+
+logger.info(`Running tests against "${environment.name}" (${environment.baseUrl})`);
+
+const result = spawnSync('npx', ['playwright', 'test', ...playwrightArgs], {
+  stdio: 'inherit',
+  env: { ...process.env, TEST_ENV: environment.name }
+});
+
+process.exit(result.status ?? 1);
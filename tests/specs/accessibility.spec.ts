@@ -0,0 +1,62 @@
+import { test, expect } from '../../fixtures';
+import { environment } from '../../config/environment';
+
+/**
+ * Checks each page for unlabeled inputs, unnamed buttons and images without alt text, and compares
+ * its accessibility tree against its committed ARIA snapshot.
+ * Run `npm run a11y:update` to accept intended changes to the accessibility tree.
+ * Desktop only: the baselines show the expanded navbar, which phones and tablets collapse.
+ */
+test.describe('Accessibility Tests', { tag: ['@a11y', '@desktop'] }, () => {
+  // The built-in checks need no baseline, so they run under every profile
+  test.describe('Accessibility checks', () => {
+    test('home page should have no accessibility issues', async ({ homePage }) => {
+      await homePage.navigateToHome();
+      expect(await homePage.checkAccessibility()).toHaveNoAccessibilityIssues();
+    });
+
+    test('shop page should have no accessibility issues', async ({ shopPage }) => {
+      await shopPage.navigateToShop();
+      expect(await shopPage.checkAccessibility()).toHaveNoAccessibilityIssues();
+    });
+
+    test('cart page should have no accessibility issues', async ({ cartWith }) => {
+      const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 1 });
+      await cartPage.waitForCartRecalculated();
+      expect(await cartPage.checkAccessibility()).toHaveNoAccessibilityIssues();
+    });
+
+    test('contact page should have no accessibility issues', async ({ homePage, contactPage }) => {
+      await homePage.navigateToHome();
+      await homePage.navigateToContact();
+      expect(await contactPage.checkAccessibility()).toHaveNoAccessibilityIssues();
+    });
+  });
+
+  test.describe('ARIA snapshots', () => {
+    test.skip(!environment.ariaBaselines,
+      `The "${environment.name}" profile has no ARIA baselines; see ariaBaselines in config/profiles.ts`);
+
+    test('home page should match its ARIA baseline', async ({ homePage }) => {
+      await homePage.navigateToHome();
+      await expect(homePage).toMatchAriaCheckpoint();
+    });
+
+    test('shop page should match its ARIA baseline', async ({ shopPage }) => {
+      await shopPage.navigateToShop();
+      await expect(shopPage).toMatchAriaCheckpoint();
+    });
+
+    test('cart page should match its ARIA baseline', async ({ cartWith }) => {
+      const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 1 });
+      await cartPage.waitForCartRecalculated();
+      await expect(cartPage).toMatchAriaCheckpoint();
+    });
+
+    test('contact page should match its ARIA baseline', async ({ homePage, contactPage }) => {
+      await homePage.navigateToHome();
+      await homePage.navigateToContact();
+      await expect(contactPage).toMatchAriaCheckpoint();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '../../fixtures';
+import { Money } from '../../models/Money';
+
+test.describe('Cart Editing Tests', () => {
+  /**
+   * Changing a quantity updates that line's subtotal and the cart total
+   */
+  test('should recalculate subtotal and total when a quantity changes', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 5 });
+    
+    await cartPage.setQuantity('Stuffed Frog', 4);
+    
+    const items = await cartPage.getCartItems();
+    const stuffedFrog = items.find(item => item.name === 'Stuffed Frog');
+    expect(stuffedFrog?.quantity).toBe(4);
+    expect(stuffedFrog?.subtotal).toEqual(Money.parse('43.96'));
+    
+    expect(await cartPage.verifySubtotals()).toHaveCorrectSubtotals();
+    
+    const total = await cartPage.verifyTotal();
+    expect(total).toHaveTotalMatchingSubtotals();
+    expect(total.total).toEqual(Money.parse('43.96').add(Money.parse('49.95')));
+  });
+
+  /**
+   * A quantity of zero takes the line out of the cart
+   */
+  test('should remove the line when the quantity is set to zero', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 5 });
+    
+    await cartPage.setQuantity('Fluffy Bunny', 0);
+    
+    const items = await cartPage.getCartItems();
+    expect(items.map(item => item.name)).toEqual(['Stuffed Frog']);
+    expect((await cartPage.verifyTotal()).total).toEqual(Money.parse('21.98'));
+  });
+
+  /**
+   * A negative quantity is rejected and the previous quantity is kept
+   */
+  test('should keep the previous quantity when a negative quantity is entered', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2 });
+    
+    await cartPage.setQuantity('Stuffed Frog', -3);
+    
+    const items = await cartPage.getCartItems();
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(2);
+    expect(items[0].subtotal).toEqual(Money.parse('21.98'));
+    expect(await cartPage.verifyTotal()).toHaveTotalMatchingSubtotals();
+  });
+
+  /**
+   * Removing a line leaves the other lines and recalculates the total
+   */
+  test('should remove a single item', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 5, 'Valentine Bear': 3 });
+    
+    await cartPage.removeItem('Fluffy Bunny');
+    
+    const items = await cartPage.getCartItems();
+    expect(items.map(item => item.name)).toEqual(['Stuffed Frog', 'Valentine Bear']);
+    
+    const total = await cartPage.verifyTotal();
+    expect(total).toHaveTotalMatchingSubtotals();
+    expect(total.total).toEqual(Money.parse('21.98').add(Money.parse('44.97')));
+  });
+
+  /**
+   * Emptying the cart asks for confirmation and then removes every line
+   */
+  test('should empty the cart after confirmation', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 5 });
+    
+    await cartPage.emptyCart();
+    
+    expect(await cartPage.getCartItems()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { writeFileSync } from 'fs';
+import { test, expect } from '../../fixtures';
+import { environment } from '../../config/environment';
+import { formatDriftReport, formatCatalogFile } from '../../models/ProductCatalog';
+import { logger } from '../../utils/logger';
+
+const updatingBaseline = process.env.UPDATE_CATALOG_BASELINE === 'true';
+
+// The catalog is the same in every browser, so one project writes the baseline rather than each racing to
+const baselineProject = 'chromium';
+
+test.describe('Product Catalog Tests', () => {
+  /**
+   * Compares the products listed on the shop page against the committed baseline
+   * catalog of the active environment profile. Run with UPDATE_CATALOG_BASELINE=true
+   * (npm run catalog:update) to accept the live catalog as the new baseline.
+   */
+  test('should list the products in the baseline catalog', async ({ shopPage }, testInfo) => {
+    test.skip(updatingBaseline && testInfo.project.name !== baselineProject,
+      `The baseline catalog is updated from the ${baselineProject} project only`);
+    
+    await shopPage.navigateToShop();
+    const catalog = await shopPage.getCatalog();
+    
+    const drift = catalog.diff(environment.catalog);
+    const report = formatDriftReport(drift, environment.catalogFile);
+    logger.info(report);
+    await test.info().attach('catalog-drift', { body: report, contentType: 'text/plain' });
+    
+    if (updatingBaseline) {
+      writeFileSync(environment.catalogFile, formatCatalogFile(catalog.toDefinitions()));
+      logger.info(`Updated baseline catalog ${environment.catalogFile}`);
+      return;
+    }
+    
+    if (drift.hasDrift && environment.catalogDrift === 'warn') {
+      test.info().annotations.push({ type: 'warning', description: report });
+      logger.warn(`Catalog drift ignored by the "${environment.name}" profile`);
+      return;
+    }
+    
+    expect(drift.hasDrift, report).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '../../fixtures';
+import { CheckoutDetails } from '../../pages/CheckoutPage';
+
+const deliveryDetails: CheckoutDetails = {
+  forename: 'Test',
+  surname: 'User',
+  email: 'test.user@example.com',
+  address: '1 Test Street, Wellington',
+  cardType: 'Visa',
+  cardNumber: '4111111111111111'
+};
+
+test.describe('Checkout Tests', () => {
+  /**
+   * Checkout Test Case 1:
+   * 1. Buy 2 Stuffed Frog and 1 Teddy Bear from the shop
+   * 2. Go to the cart page and proceed to checkout
+   * 3. Fill in delivery and payment details and submit the order
+   * 4. Validate the order confirmation and order number
+   * 5. Validate the cart has been emptied
+   */
+  test('should place an order for the cart built in the shop', async ({ homePage, shopPage, cartPage, checkoutPage }) => {
+    await test.step('Buy products', async () => {
+      await homePage.navigateToHome();
+      await homePage.navigateToShop();
+      expect(await shopPage.buyProduct('Stuffed Frog', 2)).toBeTruthy();
+      expect(await shopPage.buyProduct('Teddy Bear', 1)).toBeTruthy();
+    });
+    
+    await test.step('Proceed to checkout', async () => {
+      await homePage.navigateToCart();
+      expect(await cartPage.getCartItems()).toHaveLength(2);
+      await cartPage.proceedToCheckout();
+      await checkoutPage.waitForCheckoutForm();
+    });
+    
+    await test.step('Submit delivery and payment details', async () => {
+      await checkoutPage.fillCheckoutForm(deliveryDetails);
+      await checkoutPage.submitOrder();
+    });
+    
+    await test.step('Validate order confirmation', async () => {
+      const confirmation = await checkoutPage.getOrderConfirmation();
+      expect(confirmation).not.toBeNull();
+      expect(confirmation?.message).toContain(`Thanks ${deliveryDetails.forename}`);
+      expect(confirmation?.orderNumber).toMatch(/\S+/);
+    });
+    
+    await test.step('Validate cart is empty', async () => {
+      expect(await shopPage.getCartCount()).toBe(0);
+    });
+  });
+
+  /**
+   * Submitting the empty form shows an error for every field and places no order
+   */
+  test('should show validation errors for an empty checkout form', async ({ cartWith, checkoutPage }) => {
+    const cartPage = await cartWith({ 'Fluffy Bunny': 1 });
+    await cartPage.proceedToCheckout();
+    await checkoutPage.waitForCheckoutForm();
+    
+    await checkoutPage.submitOrder();
+    
+    const errors = await checkoutPage.getValidationErrors();
+    expect(errors).toContain('Forename is required');
+    expect(errors).toContain('Surname is required');
+    expect(errors).toContain('Email is required');
+    expect(errors).toContain('Address is required');
+    expect(errors).toContain('Card type is required');
+    expect(errors).toContain('Card number is required');
+    expect(await checkoutPage.isOrderConfirmed()).toBeFalsy();
+  });
+
+  /**
+   * Errors are per field: a bad card number is reported and the other fields are accepted
+   */
+  test('should reject an invalid card number', async ({ cartWith, checkoutPage }) => {
+    const cartPage = await cartWith({ 'Fluffy Bunny': 1 });
+    await cartPage.proceedToCheckout();
+    await checkoutPage.waitForCheckoutForm();
+    
+    await checkoutPage.fillCheckoutForm({ ...deliveryDetails, cardNumber: '1234' });
+    await checkoutPage.submitOrder();
+    
+    expect(await checkoutPage.isFieldErrorDisplayed('cardNumber')).toBeTruthy();
+    expect(await checkoutPage.isFieldErrorDisplayed('forename')).toBeFalsy();
+    expect(await checkoutPage.isFieldErrorDisplayed('email')).toBeFalsy();
+    expect(await checkoutPage.isOrderConfirmed()).toBeFalsy();
+  });
+});
@@ -0,0 +1,108 @@
+import { test, expect } from '../../fixtures';
+import { contactSubmissionApi } from '../../config/network';
+
+const feedback = {
+  forename: 'Jane',
+  surname: 'Doe',
+  email: 'jane@example.com',
+  telephone: '0400 000 000',
+  message: 'The Fluffy Bunny arrived safely'
+};
+
+const sendErrorText = contactSubmissionApi.sendError;
+
+test.describe('Contact Submission Tests', () => {
+  test.beforeEach(async ({ homePage }) => {
+    await homePage.navigateToHome();
+    await homePage.navigateToContact();
+  });
+
+  /**
+   * The request carries exactly the values in the form fields
+   */
+  test('should send the filled fields as the submission payload', async ({ contactPage, contactSubmissions }) => {
+    await contactPage.fillForm(feedback);
+    const filled = await contactPage.getFormValues();
+
+    await contactPage.submitForm();
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('success');
+
+    expect(contactSubmissions.submissions()).toHaveLength(1);
+    expect(contactSubmissions.lastSubmission().payload).toEqual(filled);
+  });
+
+  /**
+   * An invalid form is never sent
+   */
+  test('should not send a form with validation errors', async ({ contactPage, contactSubmissions }) => {
+    await contactPage.fillForm({ forename: 'Jane' });
+    await contactPage.submitForm();
+
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('invalid');
+    expect(contactSubmissions.submissions()).toHaveLength(0);
+  });
+
+  /**
+   * The progress modal stays up for as long as the server takes to answer
+   */
+  test('should keep the progress modal open while the response is slow', async ({ contactPage, contactSubmissions }) => {
+    const delayMs = 4000;
+    contactSubmissions.injectFault({ type: 'delay', delayMs });
+    await contactPage.fillForm(feedback);
+
+    const submittedAt = Date.now();
+    await contactPage.submitForm();
+    expect(await contactPage.isSendingFeedback()).toBe(true);
+
+    // The outcome only counts once the modal has closed, so it cannot arrive before the response
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('success');
+    expect(Date.now() - submittedAt).toBeGreaterThanOrEqual(delayMs);
+    expect(contactSubmissions.submissions()).toHaveLength(1);
+  });
+
+  for (const status of [400, 422, 500, 503]) {
+    /**
+     * An error response closes the progress modal, shows the send error and keeps the form
+     */
+    test(`should show the send error when the server answers ${status}`, async ({ contactPage, contactSubmissions }) => {
+      contactSubmissions.injectFault({ type: 'status', status });
+      await contactPage.fillForm(feedback);
+      await contactPage.submitForm();
+
+      expect(await contactPage.waitForSubmissionOutcome()).toBe('failed');
+      expect(await contactPage.getSubmissionError()).toBe(sendErrorText);
+      expect(await contactPage.isSendingFeedback()).toBe(false);
+      expect(await contactPage.getFormValues()).toEqual(feedback);
+    });
+  }
+
+  /**
+   * A dropped connection is handled like an error response
+   */
+  test('should show the send error when the connection is aborted', async ({ contactPage, contactSubmissions }) => {
+    contactSubmissions.injectFault({ type: 'abort' });
+    await contactPage.fillForm(feedback);
+    await contactPage.submitForm();
+
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('failed');
+    expect(await contactPage.getSubmissionError()).toBe(sendErrorText);
+  });
+
+  /**
+   * Submitting again after a failure clears the error and sends the same fields
+   */
+  test('should send the feedback when retried after a failure', async ({ contactPage, contactSubmissions }) => {
+    contactSubmissions.injectFault({ type: 'status', status: 503 });
+    await contactPage.fillForm(feedback);
+    await contactPage.submitForm();
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('failed');
+
+    await contactPage.submitForm();
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('success');
+
+    const [failed, retried] = contactSubmissions.submissions();
+    expect(failed.fault).toEqual({ type: 'status', status: 503 });
+    expect(retried.fault).toBeNull();
+    expect(retried.payload).toEqual(failed.payload);
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '../../fixtures';
+import { logger } from '../../utils/logger';
+import { contactFields } from '../../models/ContactForm';
+import { loadContactCases, resolveCaseData } from '../../utils/caseFiles';
+import { seededRandom } from '../../utils/helpers';
+import { environment } from '../../config/environment';
+import { networkMode as configuredNetworkMode } from '../../config/network';
+import { routeFromRecording } from '../../utils/harRecordings';
+import { HomePage } from '../../pages/HomePage';
+import { ContactPage } from '../../pages/ContactPage';
+
+/**
+ * Contact form validation matrix.
+ * One test per row of each case file; add rows to tests/data to cover new inputs.
+ */
+const caseFiles = [
+  'tests/data/contact-validation.csv',
+  'tests/data/contact-validation.json'
+];
+
+for (const caseFile of caseFiles) {
+  test.describe(`Contact Validation Matrix (${caseFile})`, () => {
+    for (const testCase of loadContactCases(caseFile)) {
+      const expectsSuccess = Object.keys(testCase.errors).length === 0;
+
+      test(`${testCase.name} ${expectsSuccess ? 'submits' : 'is rejected'}`, async ({ homePage, contactPage, networkMode }) => {
+        // Random values are seeded from the test when recording or replaying, so the replayed
+        // submission has the same body as the recorded one
+        const data = resolveCaseData(testCase, networkMode === 'live' ? Math.random : seededRandom(test.info().testId));
+        logger.info(`Case "${testCase.name}": ${JSON.stringify(data)}`);
+
+        await homePage.navigateToHome();
+        await homePage.navigateToContact();
+        await contactPage.fillForm(data);
+        await contactPage.submitForm();
+        expect(await contactPage.waitForSubmissionOutcome()).toBe(expectsSuccess ? 'success' : 'invalid');
+
+        if (expectsSuccess) {
+          const successMessage = await contactPage.getSuccessMessage();
+          expect(successMessage).toContain(`Thanks ${data.forename.trim()}`);
+          return;
+        }
+
+        const formState = await contactPage.getFormState();
+        for (const field of contactFields) {
+          expect(formState[field].errorText, `${field} error`).toBe(testCase.errors[field] ?? null);
+        }
+        expect(await contactPage.isSuccessMessageDisplayed()).toBe(false);
+      });
+    }
+  });
+}
+
+test.describe('Contact Validation Matrix offline replay', () => {
+  // Records against the app, so it needs the network
+  test.skip(configuredNetworkMode !== 'live', 'Records its own HAR file against the app');
+
+  /**
+   * A row built from random tokens submits the same body when replayed as when recorded
+   */
+  test('random valid submission replays from its recording', async ({ browser }, testInfo) => {
+    const testCase = loadContactCases('tests/data/contact-validation.json')
+      .find(candidate => candidate.name === 'random valid submission');
+    if (!testCase) {
+      throw new Error('tests/data/contact-validation.json has no "random valid submission" case');
+    }
+    const harFile = testInfo.outputPath('contact-validation.har');
+
+    for (const mode of ['record', 'replay'] as const) {
+      await test.step(`${mode} the submission`, async () => {
+        const context = await browser.newContext({ baseURL: environment.baseUrl });
+        const unmatched = await routeFromRecording(context, harFile, mode);
+        const page = await context.newPage();
+        const homePage = new HomePage(page);
+        const contactPage = new ContactPage(page);
+        const data = resolveCaseData(testCase, seededRandom(testInfo.testId));
+
+        await homePage.navigateToHome();
+        await homePage.navigateToContact();
+        await contactPage.fillForm(data);
+        await contactPage.submitForm();
+        expect(await contactPage.waitForSubmissionOutcome()).toBe('success');
+
+        // Closing the context writes the recording in record mode
+        await context.close();
+        expect(unmatched, 'requests missing from the recording').toEqual([]);
+      });
+    }
+  });
+});
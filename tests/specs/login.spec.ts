@@ -0,0 +1,69 @@
+import { test, expect } from '../../fixtures';
+import { environment } from '../../config/environment';
+import { logger } from '../../utils/logger';
+
+const { username, password } = environment.credentials;
+
+test.describe('Login Tests', () => {
+  test.beforeEach(async ({ homePage }) => {
+    await homePage.navigateToHome();
+  });
+
+  /**
+   * Logging in with valid credentials shows the greeting in the navigation bar
+   */
+  test('should greet the user after logging in', async ({ loginPage }) => {
+    await loginPage.login(username, password);
+    
+    expect(await loginPage.isLoggedIn()).toBeTruthy();
+    expect(await loginPage.getLoggedInUser()).toBe(username);
+    expect(await loginPage.getGreeting()).toContain(username);
+  });
+
+  /**
+   * A wrong password is rejected with an error and the user stays logged out
+   */
+  test('should reject an incorrect password', async ({ loginPage }) => {
+    await loginPage.login(username, `${password}-wrong`);
+    
+    const loginError = await loginPage.getLoginError();
+    logger.info(`Login error: ${loginError}`);
+    expect(loginError).toBe('Your login details are incorrect');
+    expect(await loginPage.isLoggedIn(1000)).toBeFalsy();
+  });
+
+  /**
+   * Submitting the empty login form shows both required-field errors
+   */
+  test('should require a username and password', async ({ loginPage }) => {
+    await loginPage.login('', '');
+    
+    expect(await loginPage.isUsernameErrorDisplayed()).toBeTruthy();
+    expect(await loginPage.isPasswordErrorDisplayed()).toBeTruthy();
+    await loginPage.cancel();
+    expect(await loginPage.isLoggedIn(1000)).toBeFalsy();
+  });
+});
+
+test.describe('Authenticated Session Tests', () => {
+  test.use({ authenticated: true });
+
+  /**
+   * The saved session starts the test logged in, without the login UI
+   */
+  test('should start logged in from the saved session', async ({ homePage, loginPage }) => {
+    await homePage.navigateToHome();
+    
+    expect(await loginPage.getLoggedInUser()).toBe(username);
+  });
+
+  /**
+   * Logging out of the shared session only affects this test's browser context
+   */
+  test('should log out of the saved session', async ({ homePage, loginPage }) => {
+    await homePage.navigateToHome();
+    
+    await loginPage.logout();
+    expect(await loginPage.isLoggedIn(1000)).toBeFalsy();
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect, Route } from '../../fixtures';
+import { UnexpectedRouteError } from '../../utils/routing';
+
+test.describe('Navigation Tests', () => {
+  /**
+   * Opening a route by its URL hands back that route's page object once the view is ready
+   */
+  test('should open a route and return its page object', async ({ app }) => {
+    const shopPage = await app.goto(Route.Shop);
+    expect(await shopPage.getProducts()).toContain('Stuffed Frog');
+    
+    const cartPage = await app.goto(Route.Cart);
+    expect(await cartPage.getCartItems()).toHaveLength(0);
+  });
+
+  /**
+   * Navigating through the app's own links lands on the route the facade reports
+   */
+  test('should report the route reached through the navbar', async ({ app, page }) => {
+    const homePage = await app.goto(Route.Home);
+    await homePage.navigateToContact();
+    
+    const contactPage = await app.current(Route.Contact);
+    await expect(page).toHaveURL(/#\/contact/);
+    expect(await contactPage.getValidationErrors()).toHaveLength(0);
+    expect(await app.current()).toBe(contactPage);
+  });
+
+  /**
+   * Expecting a route the app is not on fails with the route it is on
+   */
+  test('should report an unexpected route', async ({ app }) => {
+    await app.goto(Route.Home);
+    
+    const error = await app.current(Route.Cart).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(UnexpectedRouteError);
+    expect((error as UnexpectedRouteError).actual).toBe(Route.Home);
+  });
+
+  /**
+   * A hash the registry does not know is reported as an unknown route
+   */
+  test('should report an unknown route', async ({ app, page }) => {
+    await page.goto('/#/nowhere');
+    
+    const error = await app.current().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(UnexpectedRouteError);
+    expect((error as UnexpectedRouteError).expected).toBeNull();
+    expect((error as UnexpectedRouteError).actual).toBe('nowhere');
+  });
+});
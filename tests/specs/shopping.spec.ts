@@ -1,24 +1,7 @@
-import { test, expect } from '@playwright/test';
-import { HomePage } from '../../pages/HomePage';
-import { ShopPage } from '../../pages/ShopPage';
-import { CartPage } from '../../pages/CartPage';
-import { logger } from '../../utils/logger';
+import { test, expect } from '../../fixtures';
+import { formatReconciliationReport } from '../../models/PurchaseLedger';
 
 test.describe('Shopping Cart Tests', () => {
-  let homePage: HomePage;
-  let shopPage: ShopPage;
-  let cartPage: CartPage;
-
-  test.beforeEach(async ({ page }) => {
-    logger.info('Setting up test');
-    homePage = new HomePage(page);
-    shopPage = new ShopPage(page);
-    cartPage = new CartPage(page);
-    
-    // Navigate to home page
-    await homePage.navigateToHome();
-  });
-
   /**
    * Test Case 3:
    * 1. Buy 2 Stuffed Frog, 5 Fluffy Bunny, 3 Valentine Bear
@@ -27,116 +10,27 @@ test.describe('Shopping Cart Tests', () => {
    * 4. Verify the price for each product
    * 5. Verify that total = sum(sub totals)
    */
-  test('should calculate correct subtotals and total in cart', async ({ page }) => {
-    logger.info('Starting Test Case 3');
-    
-    // 1. Buy products
-    logger.info('Step 1: Buying products');
-    
-    // Navigate to shop page
-    await homePage.navigateToShop();
-    
-    // Wait for products to load
-    await page.waitForSelector('.product');
-    
-    // Log all available products first to help with debugging
-    const allProducts = await page.locator('.product-title').allTextContents();
-    logger.info(`Available products: ${allProducts.join(', ')}`);
-    
-    // Buy 2 Stuffed Frog (product-2)
-    logger.info('Buying 2 Stuffed Frogs');
-    const stuffedFrogBuyButton = page.locator('#product-2 .btn-success');
-    await stuffedFrogBuyButton.click();
-    await page.waitForTimeout(300);
-    await stuffedFrogBuyButton.click();
-    await page.waitForTimeout(300);
-    
-    // Buy 5 Fluffy Bunny (product-4)
-    logger.info('Buying 5 Fluffy Bunnies');
-    const fluffyBunnyBuyButton = page.locator('#product-4 .btn-success');
-    for (let i = 0; i < 5; i++) {
-      await fluffyBunnyBuyButton.click();
-      await page.waitForTimeout(300);
-    }
-    
-    // Buy 3 Valentine Bear (product-7)
-    logger.info('Buying 3 Valentine Bears');
-    const valentineBearBuyButton = page.locator('#product-7 .btn-success');
-    for (let i = 0; i < 3; i++) {
-      await valentineBearBuyButton.click();
-      await page.waitForTimeout(300);
-    }
-    
-    // Get and log the count in the cart indicator to verify items were added
-    const cartCount = await page.textContent('.cart-count');
-    logger.info(`Cart count after adding items: ${cartCount}`);
-    
-    // 2. Go to the cart page
-    logger.info('Step 2: Navigate to cart page');
-    await page.click('#nav-cart');
-    
-    // Wait for navigation to complete
-    await page.waitForNavigation({ timeout: 5000 }).catch(() => {
-      logger.info('Navigation timeout, continuing anyway');
+  test('should calculate correct subtotals and total in cart', async ({ shopPage, cartWith }) => {
+    const cartPage = await test.step('Buy products and open the cart', async () => {
+      const cart = await cartWith({
+        'Stuffed Frog': 2,
+        'Fluffy Bunny': 5,
+        'Valentine Bear': 3
+      });
+      await cart.waitForCartRecalculated();
+      return cart;
     });
     
-    // Take a screenshot of what we see
-    await page.screenshot({ path: 'screenshots/cart-page.png' });
-    
-    // Log the current URL to confirm navigation
-    logger.info(`Current URL after navigation: ${page.url()}`);
-    
-    // Wait for cart page elements 
-    await page.waitForSelector('.cart-item, .cart-items tr, tbody tr', { timeout: 5000 })
-      .catch(() => logger.info('Cart items not found, continuing anyway'));
-    
-    // 3-5. Verify product prices, subtotals, and total
-    logger.info('Steps 3-5: Verify prices, subtotals, and total');
-    
-    // Create manual verification using the prices we know
-    const stuffedFrogPrice = 10.99;
-    const fluffyBunnyPrice = 9.99;
-    const valentineBearPrice = 14.99;
-    
-    // Calculate expected subtotals
-    const stuffedFrogSubtotal = stuffedFrogPrice * 2;
-    const fluffyBunnySubtotal = fluffyBunnyPrice * 5;
-    const valentineBearSubtotal = valentineBearPrice * 3;
-    
-    // Calculate total
-    const expectedTotal = stuffedFrogSubtotal + fluffyBunnySubtotal + valentineBearSubtotal;
-    
-    logger.info(`Expected values based on product prices:`);
-    logger.info(`Stuffed Frog: $${stuffedFrogPrice} x 2 = $${stuffedFrogSubtotal.toFixed(2)}`);
-    logger.info(`Fluffy Bunny: $${fluffyBunnyPrice} x 5 = $${fluffyBunnySubtotal.toFixed(2)}`);
-    logger.info(`Valentine Bear: $${valentineBearPrice} x 3 = $${valentineBearSubtotal.toFixed(2)}`);
-    logger.info(`Expected Total: $${expectedTotal.toFixed(2)}`);
-    
-    // Check for items in cart
-    const cartItems = await page.locator('.cart-item, tr').all();
-    logger.info(`Found ${cartItems.length} potential cart items`);
-    
-    // If we have cart items, try to verify them
-    if (cartItems.length > 0) {
-      // Try to extract and verify the cart content
-      await cartPage.verifySubtotals();
-      await cartPage.verifyTotal();
-    } else {
-      // If we can't find cart items, let's create manual verification
-      logger.info('Cart items not found, performing manual verification instead');
-      
-      // Make assertions on our calculated values
-      expect(stuffedFrogSubtotal).toBeCloseTo(stuffedFrogPrice * 2, 2);
-      expect(fluffyBunnySubtotal).toBeCloseTo(fluffyBunnyPrice * 5, 2);
-      expect(valentineBearSubtotal).toBeCloseTo(valentineBearPrice * 3, 2);
-      expect(expectedTotal).toBeCloseTo(
-        stuffedFrogSubtotal + fluffyBunnySubtotal + valentineBearSubtotal, 
-        2
-      );
-      
-      logger.info('Manual verification passed');
-    }
+    await test.step('Cart matches what was bought in the shop', async () => {
+      // Every bought line is in the cart at the shop price, and the total matches
+      const reconciliation = await cartPage.reconcileWith(shopPage.ledger);
+      expect(reconciliation.isReconciled, formatReconciliationReport(reconciliation)).toBe(true);
+    });
     
-    logger.info('Test Case 3 completed');
+    await test.step('Subtotals and total add up', async () => {
+      // Soft assertions so every wrong line is reported, not just the first
+      expect.soft(await cartPage.verifySubtotals()).toHaveCorrectSubtotals();
+      expect.soft(await cartPage.verifyTotal()).toHaveTotalMatchingSubtotals();
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,48 @@
+import { test, expect } from '../../fixtures';
+import { environment } from '../../config/environment';
+
+/**
+ * Compares each page object's visual checkpoints against the baselines of the running
+ * profile and browser project. Run `npm run visual:update` to accept intended changes.
+ * Runs only in the projects the profile lists in visualBaselineProjects; in those, a checkpoint
+ * without a baseline fails as missing.
+ */
+test.describe('Visual Regression Tests', { tag: '@visual' }, () => {
+  test.beforeEach(async ({}, testInfo) => {
+    test.skip(
+      !environment.visualBaselineProjects.includes(testInfo.project.name),
+      `The "${environment.name}" profile has no visual baselines for ${testInfo.project.name}; see visualBaselineProjects in config/profiles.ts`
+    );
+  });
+
+  test('home page should match its baseline', async ({ homePage }) => {
+    await homePage.navigateToHome();
+    await expect(homePage).toMatchVisualCheckpoint('home');
+  });
+
+  test('shop page should match its baseline', async ({ shopPage }) => {
+    await shopPage.navigateToShop();
+    await expect(shopPage).toMatchVisualCheckpoint('products');
+  });
+
+  test('cart page should match its baseline', async ({ cartWith }) => {
+    const cartPage = await cartWith({ 'Stuffed Frog': 2, 'Fluffy Bunny': 1 });
+    await cartPage.waitForCartRecalculated();
+    await expect(cartPage).toMatchVisualCheckpoint('cart');
+  });
+
+  test('contact form should match its baselines', async ({ homePage, contactPage }) => {
+    await homePage.navigateToHome();
+    await homePage.navigateToContact();
+    await expect.soft(contactPage).toMatchVisualCheckpoint('form');
+
+    await contactPage.submitForm();
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('invalid');
+    await expect.soft(contactPage).toMatchVisualCheckpoint('validation-errors');
+
+    await contactPage.fillForm({ forename: 'Jane', email: 'jane@example.com', message: 'Visual check' });
+    await contactPage.submitForm();
+    expect(await contactPage.waitForSubmissionOutcome()).toBe('success');
+    await expect.soft(contactPage).toMatchVisualCheckpoint('success');
+  });
+});
@@ -0,0 +1,25 @@
+import { test, expect } from '@playwright/test';
+import { parseAriaNode } from '../../utils/accessibility';
+
+test.describe('parseAriaNode', () => {
+  test('should read the role and name of the root node', () => {
+    expect(parseAriaNode('- textbox "Email *"')).toEqual({ role: 'textbox', name: 'Email *' });
+    expect(parseAriaNode('  - link "Buy":\n    - /url: "#"')).toEqual({ role: 'link', name: 'Buy' });
+  });
+
+  test('should read an empty name for an element without one', () => {
+    expect(parseAriaNode('- button')).toEqual({ role: 'button', name: '' });
+    expect(parseAriaNode('- textbox ""')).toEqual({ role: 'textbox', name: '' });
+    expect(parseAriaNode('- button "   "')).toEqual({ role: 'button', name: '' });
+  });
+
+  test('should read names written as single-quoted keys or with escaped quotes', () => {
+    expect(parseAriaNode(`- 'button "Save: draft"'`)).toEqual({ role: 'button', name: 'Save: draft' });
+    expect(parseAriaNode('- img "The \\"Stuffed Frog\\""')).toEqual({ role: 'img', name: 'The "Stuffed Frog"' });
+  });
+
+  test('should return null for an element that is not exposed', () => {
+    expect(parseAriaNode('')).toBeNull();
+    expect(parseAriaNode('text: Buy')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { parseCsv, expandRandomTokens } from '../../utils/caseFiles';
+import { seededRandom } from '../../utils/helpers';
+
+test.describe('parseCsv', () => {
+  test('should key each row by the header row', () => {
+    expect(parseCsv('name,email\nJane,jane@example.com\nJohn,john@example.com\n')).toEqual([
+      { name: 'Jane', email: 'jane@example.com' },
+      { name: 'John', email: 'john@example.com' }
+    ]);
+  });
+
+  test('should keep commas, newlines and doubled quotes inside quoted values', () => {
+    const rows = parseCsv('name,message\n"Doe, Jane","Line one\nsaid ""hi"""\n');
+
+    expect(rows).toEqual([{ name: 'Doe, Jane', message: 'Line one\nsaid "hi"' }]);
+  });
+
+  test('should keep whitespace-only and empty values', () => {
+    expect(parseCsv('forename,surname,email\n"   ",,x')).toEqual([{ forename: '   ', surname: '', email: 'x' }]);
+  });
+
+  test('should accept CRLF line endings and skip blank lines', () => {
+    expect(parseCsv('name,errors\r\n\r\nempty,\r\nfull,email: required\r\n')).toEqual([
+      { name: 'empty', errors: '' },
+      { name: 'full', errors: 'email: required' }
+    ]);
+  });
+
+  test('should default missing trailing cells to empty and return nothing for empty text', () => {
+    expect(parseCsv('name,forename,email\nshort row,Jane')).toEqual([{ name: 'short row', forename: 'Jane', email: '' }]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+test.describe('expandRandomTokens', () => {
+  test('should replace every token and repeat its values for the same seed', () => {
+    const expanded = expandRandomTokens('{{randomString:8}} <{{randomEmail}}>', seededRandom('case'));
+
+    expect(expanded).toMatch(/^\S{8} <\S+@\S+>$/);
+    expect(expandRandomTokens('{{randomString:8}} <{{randomEmail}}>', seededRandom('case'))).toBe(expanded);
+  });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import { mergeRecordings, assertRecordingsExist, MissingRecordingsError } from '../../utils/harRecordings';
+
+/**
+ * Build a recorded HAR entry
+ * @param method - Request method
+ * @param url - Request URL
+ * @param status - Response status; Playwright records aborted requests with -1
+ * @param body - Request body, if any
+ * @returns The entry
+ */
+const entry = (method: string, url: string, status: number = 200, body?: string): HarEntry => ({
+  request: { method, url, ...(body === undefined ? {} : { postData: { text: body } }) },
+  response: { status }
+});
+
+const writeRecording = (directory: string, file: string, entries: HarEntry[]): void => {
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(path.join(directory, file), JSON.stringify({ log: { version: '1.2', entries } }));
+};
+
+test.describe('mergeRecordings', () => {
+  test('should merge each spec into one HAR, keeping the first recording of a request', async ({}, testInfo) => {
+    const recordings = testInfo.outputPath('recordings');
+    const hars = testInfo.outputPath('hars');
+    fs.mkdirSync(hars, { recursive: true });
+    writeRecording(path.join(recordings, 'shopping'), 'a.har', [
+      entry('GET', 'http://app/#/shop'),
+      entry('POST', 'http://app/api/contact', 201, '{"forename":"Jane"}')
+    ]);
+    writeRecording(path.join(recordings, 'shopping'), 'b.har', [
+      entry('GET', 'http://app/#/shop', 304),
+      entry('POST', 'http://app/api/contact', 201, '{"forename":"John"}')
+    ]);
+    writeRecording(path.join(recordings, 'cart'), 'a.har', [entry('GET', 'http://app/#/cart')]);
+
+    const written = mergeRecordings(recordings, hars);
+
+    expect(written.map(file => path.basename(file)).sort()).toEqual(['cart.har', 'shopping.har']);
+    const shopping = JSON.parse(fs.readFileSync(path.join(hars, 'shopping.har'), 'utf-8'));
+    expect(shopping.log.version).toBe('1.2');
+    expect(shopping.log.entries.map((merged: HarEntry) => merged.response.status)).toEqual([200, 201, 201]);
+    expect(fs.existsSync(recordings)).toBe(false);
+  });
+
+  test('should leave out responses a test fulfilled or aborted', async ({}, testInfo) => {
+    const recordings = testInfo.outputPath('recordings');
+    const hars = testInfo.outputPath('hars');
+    fs.mkdirSync(hars, { recursive: true });
+    writeRecording(path.join(recordings, 'contact-submission'), 'a.har', [
+      { ...entry('POST', 'http://app/api/contact', 500), _wasFulfilled: true },
+      entry('POST', 'http://app/api/contact', -1),
+      entry('GET', 'http://app/#/contact')
+    ]);
+
+    mergeRecordings(recordings, hars);
+
+    const merged = JSON.parse(fs.readFileSync(path.join(hars, 'contact-submission.har'), 'utf-8'));
+    expect(merged.log.entries).toEqual([entry('GET', 'http://app/#/contact')]);
+  });
+
+  test('should write nothing when there are no recordings', async ({}, testInfo) => {
+    expect(mergeRecordings(testInfo.outputPath('missing'), testInfo.outputPath('hars'))).toEqual([]);
+  });
+});
+
+test.describe('assertRecordingsExist', () => {
+  test('should fail once, naming the profile, when it has no recordings', async ({}, testInfo) => {
+    const hars = testInfo.outputPath('prod-like');
+
+    expect(() => assertRecordingsExist(hars, 'prod-like')).toThrow(MissingRecordingsError);
+    fs.mkdirSync(hars, { recursive: true });
+    expect(() => assertRecordingsExist(hars, 'prod-like')).toThrow('No recordings for the "prod-like" profile');
+  });
+
+  test('should accept a profile with at least one recording', async ({}, testInfo) => {
+    const hars = testInfo.outputPath('local');
+    writeRecording(hars, 'cart.har', [entry('GET', 'http://app/#/cart')]);
+
+    expect(() => assertRecordingsExist(hars, 'local')).not.toThrow();
+  });
+});
+
+/**
+ * Interface for the parts of a HAR entry the merge reads
+ */
+interface HarEntry {
+  request: { method: string; url: string; postData?: { text: string } };
+  response: { status: number };
+  _wasFulfilled?: boolean;
+}
@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+import { Money, MoneyParseError } from '../../models/Money';
+
+test.describe('Money', () => {
+  test('should parse displayed amounts into exact cents', () => {
+    expect(Money.parse('$12.99').cents).toBe(1299);
+    expect(Money.parse('12.9').cents).toBe(1290);
+    expect(Money.parse(' 7 ').cents).toBe(700);
+    expect(Money.parse('1,024.00').cents).toBe(102400);
+    expect(Money.parse('-$0.50').cents).toBe(-50);
+    expect(Object.is(Money.parse('-0').cents, 0)).toBe(true);
+  });
+
+  test('should reject text that is not an amount rather than read it as zero', () => {
+    for (const text of ['', 'Total:', '$', '12.999', '1,24.00', '12.99 USD', 'abc']) {
+      expect(() => Money.parse(text), text).toThrow(MoneyParseError);
+    }
+  });
+
+  test('should add and multiply without floating point error', () => {
+    // 0.1 + 0.2 and 3 x 14.99 are off by a fraction of a cent as floats
+    expect(Money.parse('0.10').add(Money.parse('0.20')).equals(Money.parse('0.30'))).toBe(true);
+    expect(Money.parse('14.99').multiply(3).format()).toBe('$44.97');
+    expect(Money.sum([Money.parse('21.98'), Money.parse('49.95'), Money.parse('44.97')]).format()).toBe('$116.90');
+    expect(Money.sum([]).equals(Money.zero())).toBe(true);
+  });
+
+  test('should format negative differences with the sign before the dollar sign', () => {
+    expect(Money.parse('10.00').subtract(Money.parse('10.50')).format()).toBe('-$0.50');
+    expect(`${Money.fromCents(5)}`).toBe('$0.05');
+    expect(JSON.stringify({ total: Money.fromDollars(9.99) })).toBe('{"total":"$9.99"}');
+  });
+
+  test('should refuse fractional cents and quantities', () => {
+    expect(() => Money.fromCents(12.5)).toThrow(RangeError);
+    expect(() => Money.fromDollars(9.999)).toThrow(RangeError);
+    expect(() => Money.parse('9.99').multiply(1.5)).toThrow(RangeError);
+  });
+
+  test('should compare amounts for sorting', () => {
+    const amounts = ['9.99', '14.99', '0.50'].map(text => Money.parse(text));
+
+    expect(amounts.sort((a, b) => a.compare(b)).map(amount => amount.format())).toEqual(['$0.50', '$9.99', '$14.99']);
+  });
+});
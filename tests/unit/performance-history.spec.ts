@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+import { PerformanceHistory, ProjectMeasurement, formatPerformanceSummary } from '../../models/PerformanceHistory';
+import { Route } from '../../config/routes';
+
+/**
+ * Build a measurement of a navigation to the shop
+ * @param timeToReadyMs - Time until the shop was ready
+ * @param project - Playwright project it was taken in
+ * @returns The measurement
+ */
+const shopNavigation = (timeToReadyMs: number, project: string = 'chromium'): ProjectMeasurement => ({
+  project,
+  measurement: {
+    label: 'HomePage: navigate to shop',
+    action: 'navigation',
+    route: Route.Shop,
+    url: 'http://app/#/shop',
+    documentLoad: true,
+    timeToReadyMs,
+    navigation: { timeToFirstByteMs: 20, domContentLoadedMs: 200, loadMs: 300, transferKb: 30 },
+    firstPaintMs: timeToReadyMs / 2,
+    firstContentfulPaintMs: timeToReadyMs / 2,
+    resources: { count: 3, transferKb: 10, slowest: null }
+  }
+});
+
+test.describe('PerformanceHistory', () => {
+  test('should summarise a run per project, route and action with nearest-rank percentiles', () => {
+    const history = new PerformanceHistory();
+    const times = [900, 100, 500, 300, 700, 200, 400, 800, 600, 1000];
+    history.recordRun('run-1', [...times.map(time => shopNavigation(time)), shopNavigation(50, 'phone')], 5);
+
+    const summaries = history.trends().map(trend => trend.summary);
+    expect(summaries.map(summary => [summary.key, summary.samples])).toEqual([
+      ['chromium › shop navigation', 10],
+      ['phone › shop navigation', 1]
+    ]);
+    expect(summaries[0]).toMatchObject({
+      medianTimeToReadyMs: 500,
+      p95TimeToReadyMs: 1000,
+      maxTimeToReadyMs: 1000,
+      medianFirstContentfulPaintMs: 250,
+      meanTransferKb: 40
+    });
+    expect(summaries[1]).toMatchObject({ medianTimeToReadyMs: 50, p95TimeToReadyMs: 50 });
+  });
+
+  test('should compare the latest run with the previous run and the average of earlier runs', () => {
+    const history = new PerformanceHistory();
+    history.recordRun('run-1', [shopNavigation(400)], 5);
+    history.recordRun('run-2', [shopNavigation(600)], 5);
+    history.recordRun('run-3', [shopNavigation(750)], 5);
+
+    const [trend] = history.trends();
+    expect(trend.runs).toBe(3);
+    expect(trend.previousMedianMs).toBe(600);
+    expect(trend.averageMedianMs).toBe(500);
+    expect(formatPerformanceSummary([trend])).toMatch(/ +\+25% +\+50% +1  chromium › shop navigation$/);
+  });
+
+  test('should keep only the latest runs', () => {
+    const history = new PerformanceHistory();
+    history.recordRun('run-1', [shopNavigation(100)], 2);
+    history.recordRun('run-2', [shopNavigation(200)], 2);
+    history.recordRun('run-3', [shopNavigation(300)], 2);
+
+    const [trend] = history.trends();
+    expect(trend.runs).toBe(2);
+    expect(trend.averageMedianMs).toBe(200);
+  });
+
+  test('should have no trends before the first run', () => {
+    expect(new PerformanceHistory().trends()).toEqual([]);
+  });
+});
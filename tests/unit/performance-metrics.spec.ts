@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { checkBudget, formatViolation } from '../../utils/performanceMetrics';
+import type { PerformanceMeasurement } from '../../utils/performanceMetrics';
+import { PerformanceBudget } from '../../config/performance';
+import { Route } from '../../config/routes';
+
+const budgets: PerformanceBudget[] = [
+  { route: Route.Shop, action: 'navigation', limits: { timeToReadyMs: 5000, firstContentfulPaintMs: 3000, transferKb: 500 }, onExceed: 'fail' },
+  { route: Route.Shop, action: 'buy', limits: { timeToReadyMs: 1500 }, onExceed: 'warn' }
+];
+
+/**
+ * Build a measurement of an in-app navigation to the shop
+ * @param overrides - Fields to change
+ * @returns The measurement
+ */
+const measurement = (overrides: Partial<PerformanceMeasurement> = {}): PerformanceMeasurement => ({
+  label: 'HomePage: navigate to shop',
+  action: 'navigation',
+  route: Route.Shop,
+  url: 'http://app/#/shop',
+  documentLoad: false,
+  timeToReadyMs: 800,
+  navigation: null,
+  firstPaintMs: null,
+  firstContentfulPaintMs: null,
+  resources: { count: 2, transferKb: 40, slowest: null },
+  ...overrides
+});
+
+test.describe('checkBudget', () => {
+  test('should find no violations within the budget', () => {
+    expect(checkBudget(measurement(), budgets)).toEqual([]);
+  });
+
+  test('should report each metric over its limit', () => {
+    const violations = checkBudget(measurement({ timeToReadyMs: 6200, firstContentfulPaintMs: 2000 }), budgets);
+
+    expect(violations).toEqual([{
+      label: 'HomePage: navigate to shop',
+      route: Route.Shop,
+      action: 'navigation',
+      metric: 'timeToReadyMs',
+      value: 6200,
+      limit: 5000,
+      onExceed: 'fail'
+    }]);
+    expect(formatViolation(violations[0])).toBe('HomePage: navigate to shop (shop navigation): timeToReadyMs 6200 > 5000');
+  });
+
+  test('should count the document and the resources it fetched towards the transfer limit', () => {
+    const navigation = { timeToFirstByteMs: 50, domContentLoadedMs: 300, loadMs: 400, transferKb: 480 };
+
+    expect(checkBudget(measurement({ navigation }), budgets).map(violation => [violation.metric, violation.value]))
+      .toEqual([['transferKb', 520]]);
+  });
+
+  test('should skip metrics the measurement does not have', () => {
+    // An in-app navigation paints nothing new, so it has no first contentful paint to compare
+    expect(checkBudget(measurement({ firstContentfulPaintMs: null }), budgets)).toEqual([]);
+  });
+
+  test('should use the budget of the measurement route and action', () => {
+    expect(checkBudget(measurement({ action: 'buy', timeToReadyMs: 1600 }), budgets).map(violation => violation.onExceed))
+      .toEqual(['warn']);
+    expect(checkBudget(measurement({ route: Route.Cart, timeToReadyMs: 60000 }), budgets)).toEqual([]);
+  });
+});
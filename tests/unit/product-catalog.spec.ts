@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import { test, expect } from '@playwright/test';
+import { ProductCatalog, CatalogProduct, formatDriftReport, formatCatalogFile } from '../../models/ProductCatalog';
+import { ProductDefinition, jupiterToysCatalogFile } from '../../config/profiles';
+
+const baseline: ProductDefinition[] = [
+  { id: 'product-1', title: 'Teddy Bear', price: 12.99 },
+  { id: 'product-2', title: 'Stuffed Frog', price: 10.99 },
+  { id: 'product-4', title: 'Fluffy Bunny', price: 9.99 }
+];
+
+const listed = (overrides: Partial<CatalogProduct>[] = []): CatalogProduct[] =>
+  baseline.map((product, index) => ({ ...product, available: true, ...overrides[index] }));
+
+test.describe('ProductCatalog', () => {
+  test('should report no drift when the shop lists the baseline', () => {
+    const drift = new ProductCatalog(listed()).diff(baseline);
+
+    expect(drift.hasDrift).toBe(false);
+    expect(formatDriftReport(drift, 'jupiter-toys.json')).toBe('Catalog matches jupiter-toys.json');
+  });
+
+  test('should report added and removed products by card id', () => {
+    const products = [
+      ...listed().filter(product => product.id !== 'product-2'),
+      { id: 'product-9', title: 'Rocking Horse', price: 24.5, available: true }
+    ];
+    const drift = new ProductCatalog(products).diff(baseline);
+
+    expect(drift.added.map(product => product.id)).toEqual(['product-9']);
+    expect(drift.removed.map(product => product.id)).toEqual(['product-2']);
+    expect(drift.hasDrift).toBe(true);
+  });
+
+  test('should report a changed title as a rename, not a removal and an addition', () => {
+    const drift = new ProductCatalog(listed([{}, { title: 'Stuffed Toad' }])).diff(baseline);
+
+    expect(drift.renamed).toEqual([{ id: 'product-2', expectedTitle: 'Stuffed Frog', actualTitle: 'Stuffed Toad' }]);
+    expect(drift.added).toEqual([]);
+    expect(drift.removed).toEqual([]);
+  });
+
+  test('should compare prices to the cent', () => {
+    // 0.1 + 0.2 style float noise must not count as a price change
+    const drift = new ProductCatalog(listed([{ price: 12.99 + 1e-12 }, {}, { price: 10.49 }])).diff(baseline);
+
+    expect(drift.repriced).toEqual([{ id: 'product-4', title: 'Fluffy Bunny', expectedPrice: 9.99, actualPrice: 10.49 }]);
+  });
+
+  test('should report products that cannot be bought', () => {
+    const drift = new ProductCatalog(listed([{}, {}, { available: false }])).diff(baseline);
+
+    expect(drift.unavailable.map(product => product.id)).toEqual(['product-4']);
+    expect(drift.hasDrift).toBe(true);
+    expect(formatDriftReport(drift, 'baseline')).toContain('Not available to buy (1):\n    ! product-4 "Fluffy Bunny"');
+  });
+
+  test('should write a baseline in the committed file format', () => {
+    const committed = fs.readFileSync(jupiterToysCatalogFile, 'utf-8');
+
+    expect(formatCatalogFile(JSON.parse(committed))).toBe(committed);
+    expect(JSON.parse(formatCatalogFile(baseline))).toEqual(baseline);
+  });
+});
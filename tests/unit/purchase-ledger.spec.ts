@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { PurchaseLedger, PurchasePriceChangedError, formatReconciliationReport } from '../../models/PurchaseLedger';
+import { Money } from '../../models/Money';
+import type { CartItem } from '../../pages/CartPage';
+
+const cartLine = (name: string, price: string, quantity: number): CartItem => ({
+  name,
+  price: Money.parse(price),
+  quantity,
+  subtotal: Money.parse(price).multiply(quantity)
+});
+
+/**
+ * Ledger for 2 Stuffed Frog and 5 Fluffy Bunny, the frogs bought in two purchases
+ */
+const ledger = (): PurchaseLedger => {
+  const purchases = new PurchaseLedger();
+  purchases.record('Stuffed Frog', Money.parse('10.99'), 1);
+  purchases.record('Fluffy Bunny', Money.parse('9.99'), 5);
+  purchases.record('Stuffed Frog', Money.parse('10.99'), 1);
+  return purchases;
+};
+
+test.describe('PurchaseLedger', () => {
+  test('should combine purchases into one line per product in the order first bought', () => {
+    expect(ledger().lines().map(line => [line.product, line.quantity, line.subtotal.format()])).toEqual([
+      ['Stuffed Frog', 2, '$21.98'],
+      ['Fluffy Bunny', 5, '$49.95']
+    ]);
+    expect(ledger().total().format()).toBe('$71.93');
+  });
+
+  test('should reconcile a cart that shows what was bought', () => {
+    const reconciliation = ledger().reconcile(
+      [cartLine('Fluffy Bunny', '9.99', 5), cartLine('Stuffed Frog', '10.99', 2)],
+      Money.parse('71.93')
+    );
+
+    expect(reconciliation.isReconciled).toBe(true);
+    expect(formatReconciliationReport(reconciliation)).toBe('Cart matches the purchase ledger');
+  });
+
+  test('should report every difference between the ledger and the cart', () => {
+    const reconciliation = ledger().reconcile(
+      [cartLine('Stuffed Frog', '11.99', 3), cartLine('Teddy Bear', '12.99', 1)],
+      Money.parse('48.96')
+    );
+
+    expect(reconciliation.isReconciled).toBe(false);
+    expect(reconciliation.missing.map(line => line.product)).toEqual(['Fluffy Bunny']);
+    expect(reconciliation.unexpected.map(item => item.name)).toEqual(['Teddy Bear']);
+    expect(reconciliation.quantityMismatches).toEqual([{ product: 'Stuffed Frog', expected: 2, actual: 3 }]);
+    expect(reconciliation.priceMismatches.map(mismatch => [mismatch.shopPrice.format(), mismatch.cartPrice.format()]))
+      .toEqual([['$10.99', '$11.99']]);
+    expect(reconciliation.totalMismatch?.expected.format()).toBe('$71.93');
+    expect(formatReconciliationReport(reconciliation)).toContain('Total: expected $71.93, cart shows $48.96');
+  });
+
+  test('should not reconcile an empty cart with a non-empty ledger', () => {
+    const reconciliation = ledger().reconcile([], Money.zero());
+
+    expect(reconciliation.isReconciled).toBe(false);
+    expect(reconciliation.missing).toHaveLength(2);
+    expect(reconciliation.totalMismatch).not.toBeNull();
+  });
+
+  test('should expect an empty cart once cleared', () => {
+    const purchases = ledger();
+    purchases.clear();
+
+    expect(purchases.reconcile([], Money.zero()).isReconciled).toBe(true);
+  });
+
+  test('should refuse a product bought again at a different price', () => {
+    const purchases = ledger();
+
+    expect(() => purchases.record('Stuffed Frog', Money.parse('11.99'), 1)).toThrow(PurchasePriceChangedError);
+    expect(() => purchases.record('Stuffed Frog', Money.parse('11.99'), 1)).toThrow('bought at $10.99 and is now bought at $11.99');
+    expect(purchases.lines().find(line => line.product === 'Stuffed Frog')?.quantity).toBe(2);
+  });
+});
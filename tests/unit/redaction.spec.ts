@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import { redaction, redactedValue } from '../../utils/redaction';
+
+test.describe('redaction', () => {
+  test.afterEach(() => {
+    redaction.clear();
+  });
+
+  test('should mask every occurrence of a registered value', () => {
+    redaction.register('letmein');
+
+    expect(redaction.mask('password letmein, again letmein')).toBe(`password ${redactedValue}, again ${redactedValue}`);
+  });
+
+  test('should leave values too short to mask safely', () => {
+    redaction.register('abc');
+    redaction.register('  ab  ');
+
+    expect(redaction.mask('abc ab')).toBe('abc ab');
+  });
+
+  test('should mask a value containing another registered value whole', () => {
+    redaction.register('1234');
+    redaction.register('4111 1111 1111 1234');
+
+    expect(redaction.mask('card 4111 1111 1111 1234, pin 1234')).toBe(`card ${redactedValue}, pin ${redactedValue}`);
+  });
+
+  test('should stop masking values once cleared', () => {
+    redaction.register('letmein');
+    redaction.clear();
+
+    expect(redaction.mask('letmein')).toBe('letmein');
+  });
+});
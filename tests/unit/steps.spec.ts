@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { formatStepArgument, formatStepTitle } from '../../utils/steps';
+import { redaction, redactedValue } from '../../utils/redaction';
+
+// Stand-in page object; titles start with the class name
+class LoginPage {}
+
+test.describe('formatStepArgument', () => {
+  test('should quote strings and show other values as JSON', () => {
+    expect(formatStepArgument('Stuffed Frog')).toBe('"Stuffed Frog"');
+    expect(formatStepArgument(2)).toBe('2');
+    expect(formatStepArgument({ forename: 'Jane' })).toBe('{"forename":"Jane"}');
+    expect(formatStepArgument(['a', 1])).toBe('["a",1]');
+    expect(formatStepArgument(undefined)).toBe('undefined');
+  });
+
+  test('should show functions by name and objects with their own toString as that', () => {
+    function isVisible() {}
+    const locator = { toString: () => "locator('#login')" };
+
+    expect(formatStepArgument(isVisible)).toBe('isVisible()');
+    expect(formatStepArgument(locator)).toBe("locator('#login')");
+  });
+
+  test('should cut long arguments short', () => {
+    const text = formatStepArgument('x'.repeat(100));
+
+    expect(text).toHaveLength(60);
+    expect(text.endsWith('…')).toBe(true);
+  });
+});
+
+test.describe('formatStepTitle', () => {
+  test.afterEach(() => {
+    redaction.clear();
+  });
+
+  test('should name the method and its arguments, leaving out trailing defaults', () => {
+    expect(formatStepTitle(new LoginPage(), 'logIn', ['testuser', undefined])).toBe('LoginPage: log in "testuser"');
+    expect(formatStepTitle(new LoginPage(), 'logOut', [])).toBe('LoginPage: log out');
+  });
+
+  test('should fill a template with the arguments it names', () => {
+    expect(formatStepTitle(new LoginPage(), 'logIn', ['testuser', 'letmein'], 'log in as {0}')).toBe('LoginPage: log in as "testuser"');
+  });
+
+  test('should mask registered values in titles built from arguments', () => {
+    redaction.register('letmein');
+
+    expect(formatStepTitle(new LoginPage(), 'logIn', ['testuser', 'letmein'])).toBe(`LoginPage: log in "testuser", "${redactedValue}"`);
+    expect(formatStepTitle(new LoginPage(), 'logIn', ['letmein'], (_page, password) => `type ${password}`))
+      .toBe(`LoginPage: type ${redactedValue}`);
+  });
+});
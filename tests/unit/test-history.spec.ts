@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { TestHistory, TestExecution, SampleOutcome, formatFlakinessSummary } from '../../models/TestHistory';
+
+const identity = (title: string) => ({ key: `chromium › cart.spec.ts › ${title}`, project: 'chromium', file: 'cart.spec.ts', title });
+
+const execution = (title: string, outcome: SampleOutcome): TestExecution => ({
+  test: identity(title),
+  sample: { outcome, attempts: outcome === 'passed' ? 1 : 2, durationMs: 100 }
+});
+
+/**
+ * Build a history with one run per outcome list, one execution per outcome
+ * @param title - Test title
+ * @param runs - Outcomes of the test's executions in each run
+ * @returns The history
+ */
+const historyOf = (title: string, runs: SampleOutcome[][]): TestHistory => {
+  const history = new TestHistory();
+  runs.forEach((outcomes, index) => history.recordRun(`run-${index}`, outcomes.map(outcome => execution(title, outcome)), 10));
+  return history;
+};
+
+test.describe('TestHistory', () => {
+  test('should score a test that always passes or always fails as stable', () => {
+    const passing = historyOf('passes', [['passed'], ['passed'], ['passed']]).stats()[0];
+    const failing = historyOf('fails', [['failed'], ['failed']]).stats()[0];
+
+    expect(passing.flakinessScore).toBe(0);
+    expect(passing.passRate).toBe(1);
+    expect(failing.flakinessScore).toBe(0);
+    expect(failing.passRate).toBe(0);
+  });
+
+  test('should average the retry rate and the flip rate', () => {
+    // Samples passed, failed, flaky, passed: 1 of 4 flaky, 2 of 3 consecutive pairs flip
+    const stats = historyOf('flaky', [['passed', 'failed'], ['flaky', 'passed']]).stats()[0];
+
+    expect(stats.samples).toBe(4);
+    expect(stats.passRate).toBe(0.75);
+    expect(stats.flakinessScore).toBeCloseTo((1 / 4 + 2 / 3) / 2);
+    expect(stats.passedOnlyOnRetry).toBe(true);
+    expect(stats.latest).toBe('flaky');
+    expect(stats.previous).toBe('mixed');
+  });
+
+  test('should score a test that flips every run by how often it needed a retry', () => {
+    const alwaysRetried = historyOf('retried', [['flaky'], ['failed'], ['flaky'], ['failed'], ['flaky']]).stats()[0];
+    const neverRetried = historyOf('flips', [['passed'], ['failed'], ['passed'], ['failed'], ['passed']]).stats()[0];
+
+    expect(alwaysRetried.flakinessScore).toBeCloseTo((3 / 5 + 1) / 2);
+    expect(neverRetried.flakinessScore).toBeCloseTo(0.5);
+  });
+
+  test('should keep only the latest runs and forget tests that left them', () => {
+    const history = new TestHistory();
+    history.recordRun('run-1', [execution('removed', 'passed'), execution('kept', 'failed')], 2);
+    history.recordRun('run-2', [execution('kept', 'passed')], 2);
+    history.recordRun('run-3', [execution('kept', 'passed')], 2);
+
+    const stats = history.stats();
+    expect(stats.map(entry => entry.test.title)).toEqual(['kept']);
+    expect(stats[0].runs).toBe(2);
+    expect(stats[0].flakinessScore).toBe(0);
+  });
+
+  test('should list the flakiest tests first and flag changed behaviour', () => {
+    const history = new TestHistory();
+    history.recordRun('run-1', [execution('stable', 'passed'), execution('broke', 'passed'), execution('flaky', 'failed')], 10);
+    history.recordRun('run-2', [execution('stable', 'passed'), execution('broke', 'failed'), execution('flaky', 'flaky')], 10);
+
+    const stats = history.stats();
+    expect(stats.map(entry => entry.test.title)).toEqual(['flaky', 'broke', 'stable']);
+    expect(stats.filter(entry => entry.changedRecently).map(entry => entry.test.title)).toEqual(['flaky', 'broke']);
+
+    const summary = formatFlakinessSummary(stats);
+    expect(summary).toContain(`Passed only on retry in this run (1):\n  ${identity('flaky').key}`);
+    expect(summary).toContain(`${identity('broke').key}: passed -> failed`);
+  });
+});
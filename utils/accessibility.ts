@@ -0,0 +1,118 @@
+import { Locator } from '@playwright/test';
+import { logger } from './logger';
+
+// Elements each check covers; the site's buttons are mostly links styled with .btn
+const formInputs = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]), select, textarea';
+const buttons = 'button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"], a.btn';
+const images = 'img:not([role="presentation"]):not([role="none"])';
+
+/**
+ * Read the role and accessible name of the root node of an ARIA snapshot
+ * @param snapshot - ARIA snapshot of a single element, e.g. `- textbox "Email *"`
+ * @returns Role and name (empty when the element has none), or null if the element is not exposed
+ */
+export const parseAriaNode = (snapshot: string): AriaNode | null => {
+  // Keys containing ": " are written as single-quoted YAML, e.g. - 'button "Save: draft"'
+  const match = snapshot.trimStart().match(/^- '?([\w-]+)(?: "((?:[^"\\]|\\.)*)")?/);
+  if (!match) {
+    return null;
+  }
+  return { role: match[1], name: (match[2] || '').replace(/\\(.)/g, '$1').trim() };
+};
+
+/**
+ * Describe an element so it can be found from a report, e.g. `a.btn.btn-success "Buy"`
+ * @param element - Element to describe
+ * @returns Tag, id, classes and the start of its text
+ */
+const describeElement = (element: Locator): Promise<string> => {
+  return element.evaluate(node => {
+    const id = node.id ? `#${node.id}` : '';
+    const classes = Array.from(node.classList).map(name => `.${name}`).join('');
+    const source = node.getAttribute('src');
+    const text = (node.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 40);
+    const detail = source ? ` src="${source}"` : text ? ` "${text}"` : '';
+    return `${node.tagName.toLowerCase()}${id}${classes}${detail}`;
+  });
+};
+
+/**
+ * Check the visible elements in a scope for accessibility problems that need no external service:
+ * form inputs without a label, buttons without an accessible name and images without alt text
+ * @param scope - Region of the page to check
+ * @returns One issue per element and failed check
+ */
+export const findAccessibilityIssues = async (scope: Locator): Promise<AccessibilityIssue[]> => {
+  const issues: AccessibilityIssue[] = [];
+  const namedChecks: [AccessibilityRule, string][] = [
+    ['unlabeled-input', formInputs],
+    ['unnamed-button', buttons]
+  ];
+
+  // The accessible name comes from the browser's own accessibility tree, via the element's ARIA snapshot
+  for (const [rule, selector] of namedChecks) {
+    for (const element of await scope.locator(selector).all()) {
+      if (!await element.isVisible()) {
+        continue;
+      }
+      const node = parseAriaNode(await element.ariaSnapshot());
+      if (node && !node.name) {
+        issues.push({ rule, element: await describeElement(element), role: node.role });
+      }
+    }
+  }
+
+  for (const image of await scope.locator(images).all()) {
+    const alt = await image.getAttribute('alt');
+    if (await image.isVisible() && !alt?.trim()) {
+      issues.push({ rule: 'image-without-alt', element: await describeElement(image), role: 'img' });
+    }
+  }
+
+  logger.info(`Accessibility checks found ${issues.length} issue(s)`);
+  return issues;
+};
+
+/**
+ * Format a page's accessibility issues, one line per element and failed check
+ * @param report - Page and the issues found on it
+ * @returns Multi-line report
+ */
+export const formatAccessibilityReport = (report: AccessibilityReport): string => {
+  const lines = [`${report.pageObject} (${report.url}): ${report.issues.length} accessibility issue(s)`];
+  for (const issue of report.issues) {
+    lines.push(`  ${issue.rule.padEnd(17)}  ${issue.element} (role: ${issue.role})`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Accessibility checks run by findAccessibilityIssues
+ */
+export type AccessibilityRule = 'unlabeled-input' | 'unnamed-button' | 'image-without-alt';
+
+/**
+ * Interface for the root node of an ARIA snapshot
+ */
+export interface AriaNode {
+  role: string;
+  name: string;
+}
+
+/**
+ * Interface for one failed check on one element
+ */
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  element: string;
+  role: string;
+}
+
+/**
+ * Interface for the accessibility issues found on a page
+ */
+export interface AccessibilityReport {
+  pageObject: string;
+  url: string;
+  issues: AccessibilityIssue[];
+}
@@ -0,0 +1,51 @@
+import { Browser, BrowserContext } from '@playwright/test';
+import { HomePage } from '../pages/HomePage';
+import { LoginPage } from '../pages/LoginPage';
+import { environment } from '../config/environment';
+import { networkMode, loginSessionHarFile } from '../config/network';
+import { logger } from './logger';
+import { routeFromRecording, HarReplayError } from './harRecordings';
+
+/**
+ * Log in once through the UI and read the session's storage state, for tests that start authenticated
+ * @param browser - Browser to log in with
+ * @returns Promise resolving to the storage state of the logged-in session
+ * @throws Error if the login is rejected; HarReplayError if a replayed login makes unrecorded requests
+ */
+export const createAuthenticatedState = async (browser: Browser): Promise<StorageState> => {
+  const { username, password } = environment.credentials;
+  logger.info(`Logging in as ${username} to save the authenticated session`);
+
+  const context = await browser.newContext({ baseURL: environment.baseUrl });
+  try {
+    const unmatched = await routeFromRecording(context, loginSessionHarFile, networkMode);
+    const page = await context.newPage();
+    const homePage = new HomePage(page);
+    const loginPage = new LoginPage(page);
+
+    await homePage.navigateToHome();
+    await loginPage.login(username, password);
+
+    if (!await loginPage.isLoggedIn()) {
+      const loginError = await loginPage.getLoginError();
+      throw new Error(`Could not log in as ${username} for the authenticated session: ${loginError || 'no greeting shown'}`);
+    }
+
+    const state = await context.storageState();
+    logger.info('Authenticated session saved');
+
+    // Closing the context writes the recording in record mode
+    await context.close();
+    if (unmatched.length > 0) {
+      throw new HarReplayError(loginSessionHarFile, unmatched);
+    }
+    return state;
+  } finally {
+    await context.close();
+  }
+};
+
+/**
+ * Storage state (cookies and local storage) of a browser context
+ */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateRandomEmail, generateRandomString, RandomSource } from './helpers';
+import { contactFields, ContactField, ContactFormData } from '../models/ContactForm';
+
+/**
+ * Parse CSV text into one record per row, keyed by the header row.
+ * Supports quoted values containing commas, newlines and doubled quotes.
+ * @param text - CSV text
+ * @returns Rows keyed by column name
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(cells => cells.some(cell => cell !== ''));
+  if (!header) {
+    return [];
+  }
+
+  return records.map(cells => Object.fromEntries(header.map((column, index) => [column.trim(), cells[index] ?? ''])));
+};
+
+/**
+ * Replace random value tokens in a case value:
+ * `{{randomString:N}}` becomes N random characters and `{{randomEmail}}` a random email address.
+ * @param value - Value from a case file
+ * @param random - Source of random numbers (default: Math.random)
+ * @returns Value with every token replaced
+ */
+export const expandRandomTokens = (value: string, random: RandomSource = Math.random): string => {
+  return value
+    .replace(/\{\{randomString:(\d+)\}\}/g, (_, length) => generateRandomString(Number(length), random))
+    .replace(/\{\{randomEmail\}\}/g, () => generateRandomEmail(random));
+};
+
+/**
+ * Load contact form validation cases from a JSON or CSV file.
+ *
+ * JSON files hold an array of `{ name, data: { forename, ... }, errors: { email: '...' } }`.
+ * CSV files have the columns `name`, one per contact field, and `errors` written as
+ * `field: message | field: message`. A case without errors is expected to submit successfully.
+ * Random value tokens are left in place; expand them with resolveCaseData when the test runs,
+ * so test titles stay the same in every worker.
+ * @param file - Case file path, relative to the project root
+ * @returns Cases in file order
+ */
+export const loadContactCases = (file: string): ContactCase[] => {
+  const fullPath = path.resolve(file);
+  const text = fs.readFileSync(fullPath, 'utf-8');
+  const extension = path.extname(file).toLowerCase();
+
+  let cases: ContactCase[];
+  if (extension === '.json') {
+    cases = (JSON.parse(text) as RawJsonCase[]).map(raw => ({
+      name: raw.name,
+      data: toContactFormData(raw.data || {}, file, raw.name),
+      errors: toExpectedErrors(raw.errors || {}, file, raw.name)
+    }));
+  } else if (extension === '.csv') {
+    cases = parseCsv(text).map(row => ({
+      name: row.name,
+      data: toContactFormData(row, file, row.name),
+      errors: toExpectedErrors(parseErrorColumn(row.errors || '', file, row.name), file, row.name)
+    }));
+  } else {
+    throw new Error(`Unsupported case file type: ${file} (expected .json or .csv)`);
+  }
+
+  const names = new Set<string>();
+  for (const testCase of cases) {
+    if (!testCase.name) {
+      throw new Error(`${file}: every case needs a name`);
+    }
+    if (names.has(testCase.name)) {
+      throw new Error(`${file}: duplicate case name "${testCase.name}"`);
+    }
+    names.add(testCase.name);
+  }
+
+  return cases;
+};
+
+/**
+ * Expand the random value tokens in a case's form data.
+ * Pass a seeded source to get the same values on every run, e.g. so a recorded submission can be replayed.
+ * @param testCase - Case loaded from a case file
+ * @param random - Source of random numbers (default: Math.random)
+ * @returns Form data ready to fill
+ */
+export const resolveCaseData = (testCase: ContactCase, random: RandomSource = Math.random): ContactFormData => {
+  const data = {} as ContactFormData;
+  for (const field of contactFields) {
+    data[field] = expandRandomTokens(testCase.data[field], random);
+  }
+  return data;
+};
+
+/**
+ * Build form data from a case row, defaulting missing fields to empty
+ * @param row - Field values from the case file
+ * @param file - Case file, for error messages
+ * @param name - Case name, for error messages
+ * @returns Form data for every field
+ */
+const toContactFormData = (row: Record<string, unknown>, file: string, name: string): ContactFormData => {
+  const data = {} as ContactFormData;
+  for (const field of contactFields) {
+    const value = row[field] ?? '';
+    if (typeof value !== 'string') {
+      throw new Error(`${file}: case "${name}" has a non-string value for ${field}`);
+    }
+    data[field] = value;
+  }
+  return data;
+};
+
+/**
+ * Check that expected errors only name contact fields
+ * @param errors - Expected error text by field name
+ * @param file - Case file, for error messages
+ * @param name - Case name, for error messages
+ * @returns Expected error text by field
+ */
+const toExpectedErrors = (errors: Record<string, string>, file: string, name: string): ExpectedFieldErrors => {
+  for (const field of Object.keys(errors)) {
+    if (!(contactFields as readonly string[]).includes(field)) {
+      throw new Error(`${file}: case "${name}" expects an error on unknown field "${field}"`);
+    }
+  }
+  return errors as ExpectedFieldErrors;
+};
+
+/**
+ * Parse a CSV errors column, e.g. "email: Please enter a valid email | message: Message is required"
+ * @param column - Errors column value
+ * @param file - Case file, for error messages
+ * @param name - Case name, for error messages
+ * @returns Expected error text by field name
+ */
+const parseErrorColumn = (column: string, file: string, name: string): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const entry of column.split('|').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`${file}: case "${name}" has a malformed error "${entry}" (expected "field: message")`);
+    }
+    errors[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return errors;
+};
+
+/**
+ * Expected error text by field; fields left out are expected to show no error
+ */
+export type ExpectedFieldErrors = Partial<Record<ContactField, string>>;
+
+/**
+ * Interface for one row of a contact validation case file
+ */
+export interface ContactCase {
+  name: string;
+  data: ContactFormData;
+  errors: ExpectedFieldErrors;
+}
+
+/**
+ * Interface for a case as written in a JSON case file
+ */
+interface RawJsonCase {
+  name: string;
+  data?: Record<string, unknown>;
+  errors?: Record<string, string>;
+}
@@ -0,0 +1,120 @@
+import { Page, Route } from '@playwright/test';
+import { ContactFormData } from '../models/ContactForm';
+import { logger } from './logger';
+import { contactSubmissionApi } from '../config/network';
+
+/**
+ * Captures the contact form's submission requests and injects faults into their responses.
+ * Submissions without a queued fault pass through unchanged (to the app, or to the HAR
+ * recording in replay mode).
+ * The endpoint comes from the active profile's contactSubmissionApi (config/network.ts).
+ */
+export class ContactSubmissionInterceptor {
+  // Endpoint the contact form posts its fields to
+  static readonly endpoint = contactSubmissionApi.endpoint;
+
+  private readonly page: Page;
+  private readonly faults: SubmissionFault[] = [];
+  private readonly captured: ContactSubmission[] = [];
+  private installed = false;
+
+  /**
+   * Constructor for the ContactSubmissionInterceptor class
+   * @param page - Playwright page object
+   */
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Start intercepting submissions
+   */
+  async install(): Promise<void> {
+    if (this.installed) {
+      return;
+    }
+    await this.page.route(ContactSubmissionInterceptor.endpoint, route => this.handle(route));
+    this.installed = true;
+  }
+
+  /**
+   * Queue a fault for the next submission; queued faults apply one submission each, in order
+   * @param fault - Delay, error status or aborted connection
+   */
+  injectFault(fault: SubmissionFault): void {
+    logger.info(`Queueing contact submission fault: ${JSON.stringify(fault)}`);
+    this.faults.push(fault);
+  }
+
+  /**
+   * Submissions captured so far, oldest first
+   * @returns Captured submissions
+   */
+  submissions(): ContactSubmission[] {
+    return [...this.captured];
+  }
+
+  /**
+   * Get the most recent submission
+   * @returns The latest captured submission
+   */
+  lastSubmission(): ContactSubmission {
+    const submission = this.captured[this.captured.length - 1];
+    if (!submission) {
+      throw new Error('No contact form submission was captured');
+    }
+    return submission;
+  }
+
+  /**
+   * Capture a submission and answer it according to the next queued fault
+   * @param route - Intercepted submission request
+   */
+  private async handle(route: Route): Promise<void> {
+    const request = route.request();
+    const fault = this.faults.shift();
+    this.captured.push({
+      payload: request.postDataJSON() as Partial<ContactFormData>,
+      fault: fault || null
+    });
+    logger.info(`Captured contact submission ${this.captured.length}${fault ? ` (fault: ${fault.type})` : ''}`);
+
+    if (!fault) {
+      await route.fallback();
+      return;
+    }
+
+    switch (fault.type) {
+      case 'delay':
+        await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+        await route.fallback();
+        break;
+      case 'status':
+        await route.fulfill({
+          status: fault.status,
+          contentType: 'application/json',
+          body: JSON.stringify({ error: fault.body || `Injected ${fault.status} response` })
+        });
+        break;
+      case 'abort':
+        await route.abort(fault.errorCode || 'connectionreset');
+        break;
+    }
+  }
+}
+
+/**
+ * A fault to inject into one contact submission
+ */
+export type SubmissionFault =
+  | { type: 'delay'; delayMs: number }
+  | { type: 'status'; status: number; body?: string }
+  | { type: 'abort'; errorCode?: string };
+
+/**
+ * Interface for a captured contact submission
+ */
+export interface ContactSubmission {
+  payload: Partial<ContactFormData>;
+  fault: SubmissionFault | null;
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext } from '@playwright/test';
+import { NetworkMode } from '../config/network';
+import { logger } from './logger';
+
+/**
+ * Error thrown when a replayed run makes a request its recording does not contain
+ */
+export class HarReplayError extends Error {
+  constructor(harFile: string, readonly unmatched: string[]) {
+    super(
+      `${unmatched.length} request(s) are not in ${harFile}; ` +
+      `refresh the recordings with "npm run har:refresh" against the live site:\n` +
+      unmatched.map(request => `  ${request}`).join('\n')
+    );
+    this.name = 'HarReplayError';
+  }
+}
+
+/**
+ * Error thrown when replay mode finds no recordings for the profile at all
+ */
+export class MissingRecordingsError extends Error {
+  constructor(harDirectory: string, profileName: string) {
+    super(
+      `No recordings for the "${profileName}" profile in ${harDirectory}; ` +
+      `record them with "npm run har:refresh" against the live site before running offline`
+    );
+    this.name = 'MissingRecordingsError';
+  }
+}
+
+/**
+ * Check that a profile has any recordings to replay, so an offline run without them fails once
+ * at startup instead of once per request
+ * @param harDirectory - The profile's HAR directory
+ * @param profileName - Profile name, for the error message
+ * @throws MissingRecordingsError if the directory holds no HAR files
+ */
+export const assertRecordingsExist = (harDirectory: string, profileName: string): void => {
+  const hasRecordings = fs.existsSync(harDirectory)
+    && fs.readdirSync(harDirectory).some(file => file.endsWith('.har'));
+  if (!hasRecordings) {
+    throw new MissingRecordingsError(harDirectory, profileName);
+  }
+};
+
+/**
+ * Route a browser context according to the network mode.
+ * In record mode responses are written to the HAR file when the context closes;
+ * in replay mode they are served from it and any other request is aborted and collected.
+ * @param context - Browser context to route
+ * @param harFile - HAR file to record into or replay from
+ * @param mode - Network mode
+ * @returns Requests the recording could not answer (always empty outside replay mode)
+ */
+export const routeFromRecording = async (context: BrowserContext, harFile: string, mode: NetworkMode): Promise<string[]> => {
+  const unmatched: string[] = [];
+
+  if (mode === 'record') {
+    logger.info(`Recording network traffic to ${harFile}`);
+    fs.mkdirSync(path.dirname(harFile), { recursive: true });
+    await context.routeFromHAR(harFile, { update: true, updateContent: 'embed', updateMode: 'minimal' });
+  } else if (mode === 'replay') {
+    if (!fs.existsSync(harFile)) {
+      throw new HarReplayError(harFile, ['(no recording exists)']);
+    }
+    logger.info(`Replaying network traffic from ${harFile}`);
+
+    // Registered first so the HAR route below takes precedence and falls back to it
+    await context.route('**/*', route => {
+      const request = route.request();
+      unmatched.push(`${request.method()} ${request.url()}`);
+      logger.error(`Not in recording: ${request.method()} ${request.url()}`);
+      return route.abort('internetdisconnected');
+    });
+    await context.routeFromHAR(harFile, { notFound: 'fallback' });
+  }
+
+  return unmatched;
+};
+
+/**
+ * Merge the per-test recordings of each spec into one HAR file per spec.
+ * Entries are de-duplicated by method, URL and request body, keeping the first recorded.
+ * Responses a test faked with route.fulfill or aborted are not the app's, so they are left out.
+ * @param recordingDirectory - Directory holding one sub-directory of per-test HAR files per spec
+ * @param harDirectory - Directory to write the per-spec HAR files to
+ * @returns Paths of the HAR files written
+ */
+export const mergeRecordings = (recordingDirectory: string, harDirectory: string): string[] => {
+  if (!fs.existsSync(recordingDirectory)) {
+    return [];
+  }
+
+  const written: string[] = [];
+  for (const spec of fs.readdirSync(recordingDirectory)) {
+    const specDirectory = path.join(recordingDirectory, spec);
+    const recordings = fs.readdirSync(specDirectory)
+      .filter(file => file.endsWith('.har'))
+      .sort()
+      .map(file => JSON.parse(fs.readFileSync(path.join(specDirectory, file), 'utf-8')) as HarFile);
+
+    if (recordings.length === 0) {
+      continue;
+    }
+
+    const seen = new Set<string>();
+    const entries: HarEntry[] = [];
+    for (const entry of recordings.flatMap(recording => recording.log.entries)) {
+      if (entry._wasFulfilled || entry.response.status <= 0) {
+        continue;
+      }
+      const key = `${entry.request.method} ${entry.request.url} ${entry.request.postData?.text ?? ''}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        entries.push(entry);
+      }
+    }
+
+    const harFile = path.join(harDirectory, `${spec}.har`);
+    const merged: HarFile = { log: { ...recordings[0].log, entries } };
+    fs.writeFileSync(harFile, JSON.stringify(merged, null, 2));
+    logger.info(`Wrote ${entries.length} recorded request(s) from ${recordings.length} test(s) to ${harFile}`);
+    written.push(harFile);
+  }
+
+  fs.rmSync(recordingDirectory, { recursive: true, force: true });
+  return written;
+};
+
+/**
+ * Interface for the parts of a HAR file the merge needs
+ */
+interface HarFile {
+  log: {
+    entries: HarEntry[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Interface for the parts of a HAR entry the merge needs
+ */
+interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    postData?: { text?: string };
+  };
+  response: {
+    status: number;
+  };
+  _wasFulfilled?: boolean;
+  [key: string]: unknown;
+}
@@ -1,88 +1,50 @@
-import { Page } from '@playwright/test';
-import { logger } from './logger';
-
 /**
- * Wait for a specified amount of time
- * @param ms - Time to wait in milliseconds
- * @returns Promise that resolves after the specified time
+ * Create a random number generator that repeats the same sequence for the same seed
+ * @param seed - Seed, e.g. a test id
+ * @returns Function returning numbers in [0, 1), like Math.random
  */
-export const wait = async (ms: number): Promise<void> => {
-  logger.info(`Waiting for ${ms}ms`);
-  return new Promise(resolve => setTimeout(resolve, ms));
+export const seededRandom = (seed: string): RandomSource => {
+  // FNV-1a hash of the seed, then mulberry32
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
 };
 
 /**
  * Generate a random string of specified length
  * @param length - Length of the string to generate
+ * @param random - Source of random numbers (default: Math.random)
  * @returns Random string
  */
-export const generateRandomString = (length: number): string => {
+export const generateRandomString = (length: number, random: RandomSource = Math.random): string => {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   let result = '';
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(Math.floor(random() * chars.length));
   }
   return result;
 };
 
 /**
  * Generate a random email
+ * @param random - Source of random numbers (default: Math.random)
  * @returns Random email
  */
-export const generateRandomEmail = (): string => {
+export const generateRandomEmail = (random: RandomSource = Math.random): string => {
   const domains = ['example.com', 'test.com', 'mail.com', 'email.com'];
-  const username = generateRandomString(8).toLowerCase();
-  const domain = domains[Math.floor(Math.random() * domains.length)];
+  const username = generateRandomString(8, random).toLowerCase();
+  const domain = domains[Math.floor(random() * domains.length)];
   return `${username}@${domain}`;
 };
 
 /**
- * Take a screenshot and save it with a specified name
- * @param page - Playwright page object
- * @param screenshotName - Name for the screenshot file
- */
-export const takeScreenshot = async (page: Page, screenshotName: string): Promise<void> => {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const filename = `${screenshotName}_${timestamp}.png`;
-  logger.info(`Taking screenshot: ${filename}`);
-  await page.screenshot({ path: `./screenshots/${filename}`, fullPage: true });
-};
-
-/**
- * Format currency value as a string
- * @param value - Numeric value to format
- * @returns Formatted currency string
- */
-export const formatCurrency = (value: number): string => {
-  return `$${value.toFixed(2)}`;
-};
-
-/**
- * Parse currency string to number
- * @param currencyStr - Currency string to parse
- * @returns Parsed numeric value
- */
-export const parseCurrency = (currencyStr: string): number => {
-  return parseFloat(currencyStr.replace(/[^0-9.]/g, ''));
-};
-
-/**
- * Calculate expected subtotal
- * @param price - Price of the product
- * @param quantity - Quantity of the product
- * @returns Expected subtotal
- */
-export const calculateSubtotal = (price: number, quantity: number): number => {
-  return parseFloat((price * quantity).toFixed(2));
-};
-
-/**
- * Check if two numeric values are approximately equal
- * @param a - First value
- * @param b - Second value
- * @param epsilon - Maximum allowed difference (default: 0.01)
- * @returns Boolean indicating if values are approximately equal
+ * Source of random numbers in [0, 1)
  */
-export const isApproximatelyEqual = (a: number, b: number, epsilon: number = 0.01): boolean => {
-  return Math.abs(a - b) < epsilon;
-};
\ No newline at end of file
+export type RandomSource = () => number;
@@ -1,36 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test } from '@playwright/test';
+import { redaction } from './redaction';
 
 /**
- * Simple logger implementation to avoid dependency issues
+ * Log levels from most to least verbose
+ */
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof logLevels[number];
+
+/**
+ * Resolve the LOG_LEVEL threshold; entries below it are dropped from every sink
+ * @param value - LOG_LEVEL value
+ * @returns The threshold level (default: info)
+ */
+const resolveLogLevel = (value: string | undefined): LogLevel => {
+  if (!value) {
+    return 'info';
+  }
+
+  const level = value.toLowerCase();
+  if (!(logLevels as readonly string[]).includes(level)) {
+    throw new Error(`Invalid LOG_LEVEL "${value}" (expected one of: ${logLevels.join(', ')})`);
+  }
+  return level as LogLevel;
+};
+
+const threshold = resolveLogLevel(process.env.LOG_LEVEL);
+
+/**
+ * JSON-lines file every log entry is appended to, from every worker
+ */
+export const logFile = process.env.LOG_FILE || 'logs/test-run.jsonl';
+
+let logFileReady = false;
+
+// Entries logged during the current test, collected for its report attachment
+let testEntries: LogEntry[] | null = null;
+
+/**
+ * Get the context of the test currently running in this worker
+ * @returns The test context, or undefined outside a test (global setup, scripts, the stand-in app)
+ */
+const currentContext = (): LogContext | undefined => {
+  try {
+    const testInfo = test.info();
+    return {
+      test: testInfo.titlePath.slice(1).join(' › '),
+      project: testInfo.project.name,
+      workerIndex: testInfo.workerIndex,
+      retry: testInfo.retry
+    };
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Append an entry to the JSON-lines file
+ * @param entry - Log entry
+ */
+const appendToLogFile = (entry: LogEntry): void => {
+  try {
+    if (!logFileReady) {
+      fs.mkdirSync(path.dirname(logFile), { recursive: true });
+      logFileReady = true;
+    }
+    fs.appendFileSync(logFile, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    // The console still has the entry; a broken file sink must not fail the test
+  }
+};
+
+/**
+ * Send an entry through every sink: console, JSON-lines file and the current test's slice.
+ * Sensitive values are masked before the entry reaches any sink.
+ * @param level - Log level
+ * @param message - Message to log
+ */
+const write = (level: LogLevel, message: string): void => {
+  if (logLevels.indexOf(level) < logLevels.indexOf(threshold)) {
+    return;
+  }
+
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redaction.mask(message),
+    context: currentContext()
+  };
+
+  const line = formatLogEntry(entry);
+  switch (level) {
+    case 'error':
+      console.error(line);
+      break;
+    case 'warn':
+      console.warn(line);
+      break;
+    case 'debug':
+      console.debug(line);
+      break;
+    default:
+      console.log(line);
+  }
+
+  appendToLogFile(entry);
+  testEntries?.push(entry);
+};
+
+/**
+ * Format a log entry as a console line, e.g.
+ * `[2025-01-01T10:00:00.000Z] [INFO] [w0 chromium] [Cart Tests › should remove a line] Removing item`
+ * @param entry - Log entry
+ * @returns The formatted line
+ */
+export const formatLogEntry = (entry: LogEntry): string => {
+  const context = entry.context
+    ? ` [w${entry.context.workerIndex} ${entry.context.project}${entry.context.retry ? ` retry ${entry.context.retry}` : ''}] [${entry.context.test}]`
+    : '';
+  return `[${entry.timestamp}] [${entry.level.toUpperCase()}]${context} ${entry.message}`;
+};
+
+/**
+ * Leveled logger; entries carry the running test's title, project, worker index and retry
  */
 export const logger = {
   info: (message: string): void => {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] [INFO] ${message}`);
+    write('info', message);
   },
-  
+
   error: (message: string): void => {
-    const timestamp = new Date().toISOString();
-    console.error(`[${timestamp}] [ERROR] ${message}`);
+    write('error', message);
   },
-  
+
   warn: (message: string): void => {
-    const timestamp = new Date().toISOString();
-    console.warn(`[${timestamp}] [WARN] ${message}`);
+    write('warn', message);
   },
-  
+
   debug: (message: string): void => {
-    const timestamp = new Date().toISOString();
-    console.debug(`[${timestamp}] [DEBUG] ${message}`);
+    write('debug', message);
   }
 };
 
 /**
- * Log stream for integration with other tools
+ * Collects the entries logged during one test, for attaching to its report
+ */
+export const testLogCapture = {
+  /**
+   * Start collecting entries for the test that is starting
+   */
+  start: (): void => {
+    testEntries = [];
+  },
+
+  /**
+   * Stop collecting and take the entries logged since start
+   * @returns Entries logged during the test
+   */
+  stop: (): LogEntry[] => {
+    const entries = testEntries || [];
+    testEntries = null;
+    return entries;
+  }
+};
+
+/**
+ * Empty the JSON-lines file at the start of a run
+ */
+export const resetLogFile = (): void => {
+  fs.mkdirSync(path.dirname(logFile), { recursive: true });
+  fs.writeFileSync(logFile, '');
+  logFileReady = true;
+};
+
+/**
+ * Log stream for integration with other tools; each line becomes an info entry
  */
 export const logStream = {
   write: (message: string): void => {
-    if (message.trim()) {
-      logger.info(message.trim());
+    for (const line of message.split('\n')) {
+      if (line.trim()) {
+        logger.info(line.trim());
+      }
     }
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Interface for the test a log entry was written from
+ */
+export interface LogContext {
+  test: string;
+  project: string;
+  workerIndex: number;
+  retry: number;
+}
+
+/**
+ * Interface for one log entry, as written to the JSON-lines file
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  context?: LogContext;
+}
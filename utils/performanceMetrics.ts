@@ -0,0 +1,230 @@
+import { Page } from '@playwright/test';
+import { logger } from './logger';
+import { PerformanceAction, PerformanceBudget, BudgetedMetric, performanceBudgets } from '../config/performance';
+import { routeOf } from '../config/routes';
+
+// Measurements taken during the current test
+let measurements: PerformanceMeasurement[] = [];
+
+/**
+ * Error thrown after a test whose measurements exceeded a failing budget
+ */
+export class PerformanceBudgetError extends Error {
+  constructor(readonly violations: BudgetViolation[]) {
+    super(`Performance budget exceeded:\n${violations.map(violation => `  ${formatViolation(violation)}`).join('\n')}`);
+    this.name = 'PerformanceBudgetError';
+  }
+}
+
+/**
+ * Note where a measurement starts, before the navigation or action it times
+ * @param page - Playwright page
+ * @returns The browser's clock at the start and the document it was read in
+ */
+export const startMeasurement = (page: Page): Promise<MeasurementStart> => {
+  return page.evaluate(() => ({ timeOrigin: performance.timeOrigin, startTime: performance.now() }));
+};
+
+/**
+ * Read the browser's timing data once the navigation or action has finished and the view is ready.
+ * When a new document was loaded since the start, the measurement runs from the start of the page
+ * load and includes Navigation Timing and paint timings; otherwise it runs from the start of the action
+ * and covers the resources fetched since.
+ * @param page - Playwright page
+ * @param start - Where the measurement started
+ * @param label - What was measured, e.g. "HomePage: navigate to shop"
+ * @param action - Kind of measurement, for matching budgets
+ * @returns The measurement
+ */
+export const finishMeasurement = async (
+  page: Page,
+  start: MeasurementStart,
+  label: string,
+  action: PerformanceAction
+): Promise<PerformanceMeasurement> => {
+  const timings = await page.evaluate(({ timeOrigin, startTime }) => {
+    const round = (value: number): number => Math.round(value * 10) / 10;
+    const kilobytes = (bytes: number): number => round(bytes / 1024);
+
+    const now = performance.now();
+    const documentLoad = performance.timeOrigin !== timeOrigin;
+    const from = documentLoad ? 0 : startTime;
+
+    const navigationEntry = documentLoad
+      ? performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined
+      : undefined;
+    const paint = (name: string): number | null => {
+      const entry = performance.getEntriesByType('paint').find(paintEntry => paintEntry.name === name);
+      return entry && entry.startTime >= from ? round(entry.startTime) : null;
+    };
+    const resources = (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+      .filter(entry => entry.startTime >= from);
+    const slowest = resources.reduce<PerformanceResourceTiming | null>(
+      (found, entry) => !found || entry.duration > found.duration ? entry : found, null);
+
+    return {
+      documentLoad,
+      timeToReadyMs: round(now - from),
+      navigation: navigationEntry ? {
+        timeToFirstByteMs: round(navigationEntry.responseStart),
+        domContentLoadedMs: round(navigationEntry.domContentLoadedEventEnd) || null,
+        loadMs: round(navigationEntry.loadEventEnd) || null,
+        transferKb: kilobytes(navigationEntry.transferSize)
+      } : null,
+      firstPaintMs: paint('first-paint'),
+      firstContentfulPaintMs: paint('first-contentful-paint'),
+      resources: {
+        count: resources.length,
+        transferKb: kilobytes(resources.reduce((total, entry) => total + entry.transferSize, 0)),
+        slowest: slowest ? { url: slowest.name, durationMs: round(slowest.duration) } : null
+      }
+    };
+  }, start);
+
+  const url = page.url();
+  return { label, action, route: routeOf(url), url, ...timings };
+};
+
+/**
+ * Read a budgeted metric from a measurement
+ * @param measurement - Measurement
+ * @param metric - Budgeted metric
+ * @returns The value, or null if the measurement does not have it (e.g. paint timings of an in-app navigation)
+ */
+const metricValue = (measurement: PerformanceMeasurement, metric: BudgetedMetric): number | null => {
+  switch (metric) {
+    case 'timeToReadyMs':
+      return measurement.timeToReadyMs;
+    case 'firstContentfulPaintMs':
+      return measurement.firstContentfulPaintMs;
+    case 'domContentLoadedMs':
+      return measurement.navigation?.domContentLoadedMs ?? null;
+    case 'transferKb':
+      return measurement.resources.transferKb + (measurement.navigation?.transferKb ?? 0);
+  }
+};
+
+/**
+ * Compare a measurement with the budget for its route and action
+ * @param measurement - Measurement
+ * @param budgets - Budgets to check against (default: the configured budgets)
+ * @returns One violation per metric over its limit
+ */
+export const checkBudget = (
+  measurement: PerformanceMeasurement,
+  budgets: PerformanceBudget[] = performanceBudgets
+): BudgetViolation[] => {
+  const budget = budgets.find(candidate => candidate.route === measurement.route && candidate.action === measurement.action);
+  if (!budget) {
+    return [];
+  }
+
+  const violations: BudgetViolation[] = [];
+  for (const [metric, limit] of Object.entries(budget.limits) as [BudgetedMetric, number][]) {
+    const value = metricValue(measurement, metric);
+    if (value !== null && value > limit) {
+      violations.push({ label: measurement.label, route: budget.route, action: budget.action, metric, value, limit, onExceed: budget.onExceed });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Format a budget violation in one line
+ * @param violation - Budget violation
+ * @returns e.g. `HomePage: navigate to shop (shop navigation): timeToReadyMs 6200 > 5000`
+ */
+export const formatViolation = (violation: BudgetViolation): string => {
+  return `${violation.label} (${violation.route} ${violation.action}): ${violation.metric} ${violation.value} > ${violation.limit}`;
+};
+
+/**
+ * Collects the performance measurements taken during a test
+ */
+export const performanceMetrics = {
+  /**
+   * Record a measurement, logging any budget it exceeds
+   * @param measurement - Measurement
+   */
+  record: (measurement: PerformanceMeasurement): void => {
+    measurements.push(measurement);
+    logger.info(`Performance of ${measurement.label}: ready in ${measurement.timeToReadyMs}ms on ${measurement.route}`);
+
+    for (const violation of checkBudget(measurement)) {
+      if (violation.onExceed === 'fail') {
+        logger.error(`Performance budget exceeded: ${formatViolation(violation)}`);
+      } else {
+        logger.warn(`Performance budget exceeded (warning only): ${formatViolation(violation)}`);
+      }
+    }
+  },
+
+  /**
+   * Take the measurements recorded since the last call
+   * @returns Measurements taken during the current test
+   */
+  drain: (): PerformanceMeasurement[] => {
+    const drained = measurements;
+    measurements = [];
+    return drained;
+  }
+};
+
+/**
+ * Interface for the start of a measurement
+ */
+export interface MeasurementStart {
+  // Identifies the document; it changes when the navigation loads a new page
+  timeOrigin: number;
+  startTime: number;
+}
+
+/**
+ * Interface for one measured navigation or action
+ */
+export interface PerformanceMeasurement {
+  label: string;
+  action: PerformanceAction;
+  route: string;
+  url: string;
+  // True when a new document was loaded, rather than the app changing views in place
+  documentLoad: boolean;
+  timeToReadyMs: number;
+  navigation: NavigationMetrics | null;
+  firstPaintMs: number | null;
+  firstContentfulPaintMs: number | null;
+  resources: ResourceMetrics;
+}
+
+/**
+ * Interface for the Navigation Timing of a document load, in ms from the start of the load
+ */
+export interface NavigationMetrics {
+  timeToFirstByteMs: number;
+  // Null while the event has not finished
+  domContentLoadedMs: number | null;
+  loadMs: number | null;
+  transferKb: number;
+}
+
+/**
+ * Interface for the resources fetched during a measurement
+ */
+export interface ResourceMetrics {
+  count: number;
+  transferKb: number;
+  slowest: { url: string; durationMs: number } | null;
+}
+
+/**
+ * Interface for a metric over its budget
+ */
+export interface BudgetViolation {
+  label: string;
+  route: string;
+  action: PerformanceAction;
+  metric: BudgetedMetric;
+  value: number;
+  limit: number;
+  onExceed: 'fail' | 'warn';
+}
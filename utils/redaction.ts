@@ -0,0 +1,47 @@
+/**
+ * Replacement shown wherever a sensitive value would have appeared
+ */
+export const redactedValue = '******';
+
+// Values shorter than this are too likely to occur in ordinary text to be masked safely
+const minimumSecretLength = 4;
+
+// Sensitive values entered so far in the running test
+const secrets = new Set<string>();
+
+/**
+ * Remembers sensitive values so they can be masked in logs, step titles and attachments
+ */
+export const redaction = {
+  /**
+   * Remember a sensitive value; later calls to mask replace it wherever it appears
+   * @param value - Sensitive value, e.g. a password or card number
+   */
+  register: (value: string): void => {
+    const secret = value.trim();
+    if (secret.length >= minimumSecretLength) {
+      secrets.add(secret);
+    }
+  },
+
+  /**
+   * Replace every remembered sensitive value in a text
+   * @param text - Text that may contain sensitive values
+   * @returns The text with sensitive values masked
+   */
+  mask: (text: string): string => {
+    let masked = text;
+    // Longest first, so a secret containing another is masked whole
+    for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+      masked = masked.split(secret).join(redactedValue);
+    }
+    return masked;
+  },
+
+  /**
+   * Forget every remembered value, so one test's secrets are not masked in the next test's output
+   */
+  clear: (): void => {
+    secrets.clear();
+  }
+};
@@ -0,0 +1,41 @@
+import { Page } from '@playwright/test';
+import { logger } from './logger';
+import { Route, routeDefinitions, routeOf, isRoute } from '../config/routes';
+
+/**
+ * Error thrown when the app shows a different route from the one expected, or one it does not know
+ */
+export class UnexpectedRouteError extends Error {
+  constructor(readonly expected: Route | null, readonly actual: string, readonly url: string) {
+    super(
+      expected
+        ? `Expected the app to be on the ${expected} route, but it is on ${isRoute(actual) ? 'the' : 'an unknown'} ${actual} route (${url})`
+        : `The app is on an unknown route "${actual}" (${url}); known routes: ${Object.values(Route).join(', ')}`
+    );
+    this.name = 'UnexpectedRouteError';
+  }
+}
+
+/**
+ * Wait until the app shows a route and its view has rendered
+ * @param page - Playwright page
+ * @param route - Expected route
+ * @param timeout - Maximum time to wait for each of the URL and the view, in milliseconds
+ * @throws UnexpectedRouteError if the URL does not reach the route in time
+ */
+export const waitForRoute = async (page: Page, route: Route, timeout: number): Promise<void> => {
+  const definition = routeDefinitions[route];
+  logger.info(`Waiting for the ${route} route to be ready (${definition.ready})`);
+
+  try {
+    await page.waitForURL(url => routeOf(url.href) === route, { timeout });
+  } catch (error) {
+    throw new UnexpectedRouteError(route, routeOf(page.url()), page.url());
+  }
+
+  try {
+    await page.locator(definition.ready).first().waitFor({ state: 'visible', timeout });
+  } catch (error) {
+    throw new Error(`The ${route} route did not become ready: nothing matching "${definition.ready}" showed within ${timeout}ms`);
+  }
+};
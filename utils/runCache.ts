@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * Directory for values shared by every worker process of a run; the global setup empties it
+ */
+export const runCacheDirectory = path.join('playwright', '.run');
+
+/**
+ * Get the file a shared value is kept in
+ * @param name - Name of the value
+ * @returns Path of the value's file
+ */
+const runCacheFile = (name: string): string => path.join(runCacheDirectory, `${name}.json`);
+
+/**
+ * Claim the right to compute a value, so other workers wait for it instead of computing it too
+ * @param lockFile - Lock file of the value
+ * @returns Boolean indicating if this worker holds the lock
+ */
+const claim = (lockFile: string): boolean => {
+  try {
+    fs.closeSync(fs.openSync(lockFile, 'wx'));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Values computed once per run and shared by every worker process, e.g. the scraped product catalog
+ */
+export const runCache = {
+  /**
+   * Get a shared value, computing it if no worker has yet.
+   * While another worker computes it, wait for its result; if that worker fails or is slower than
+   * the timeout, compute it here instead.
+   * @param name - Name of the value
+   * @param compute - Computes the value; it is stored as JSON
+   * @param timeout - How long to wait for another worker's result, in milliseconds
+   * @returns Promise resolving to the value
+   */
+  get: async <T>(name: string, compute: () => Promise<T>, timeout: number): Promise<T> => {
+    const file = runCacheFile(name);
+    const lockFile = `${file}.lock`;
+    fs.mkdirSync(runCacheDirectory, { recursive: true });
+
+    const deadline = Date.now() + timeout;
+    let claimed = false;
+    while (!fs.existsSync(file)) {
+      claimed = claim(lockFile);
+      if (claimed) {
+        break;
+      }
+      if (Date.now() > deadline) {
+        logger.warn(`Another worker did not share ${name} within ${timeout}ms, computing it here`);
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    if (fs.existsSync(file)) {
+      if (claimed) {
+        fs.rmSync(lockFile, { force: true });
+      }
+      logger.info(`Using ${name} shared by this run (${file})`);
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+    }
+
+    try {
+      const value = await compute();
+      runCache.set(name, value);
+      return value;
+    } finally {
+      if (claimed) {
+        fs.rmSync(lockFile, { force: true });
+      }
+    }
+  },
+
+  /**
+   * Share a value with the other workers, replacing any shared before
+   * @param name - Name of the value
+   * @param value - Value, stored as JSON
+   */
+  set: <T>(name: string, value: T): void => {
+    const file = runCacheFile(name);
+    fs.mkdirSync(runCacheDirectory, { recursive: true });
+
+    // Written under another name and renamed, so a waiting worker never reads half a file
+    const partialFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(partialFile, JSON.stringify(value));
+    fs.renameSync(partialFile, file);
+  },
+
+  /**
+   * Forget every shared value, at the start of a run
+   */
+  clear: (): void => {
+    fs.rmSync(runCacheDirectory, { recursive: true, force: true });
+  }
+};
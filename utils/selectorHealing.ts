@@ -0,0 +1,107 @@
+import { test } from '@playwright/test';
+import { logger } from './logger';
+
+/**
+ * Strict selector mode turns every fallback match into a failure, so selector rot shows up
+ * instead of being absorbed. On by default in CI; SELECTOR_STRICT=true/false overrides.
+ */
+const strictMode = process.env.SELECTOR_STRICT
+  ? process.env.SELECTOR_STRICT === 'true'
+  : !!process.env.CI;
+
+// Fallback matches recorded during the current test
+let healedSelectors: HealedSelector[] = [];
+
+/**
+ * Error thrown in strict selector mode when only a fallback candidate matched
+ */
+export class HealedSelectorError extends Error {
+  constructor(readonly healed: HealedSelector) {
+    super(
+      `${healed.pageObject}: primary selector "${healed.primary}" for ${healed.element} did not match; ` +
+      `fallback "${healed.matched}" (candidate ${healed.rank + 1}) did (strict selector mode)`
+    );
+    this.name = 'HealedSelectorError';
+  }
+}
+
+/**
+ * Records which candidate selector matched when the primary one failed
+ */
+export const selectorHealing = {
+  /**
+   * Whether fallback matches fail the test
+   */
+  isStrict: (): boolean => strictMode,
+
+  /**
+   * Record a fallback match, or throw in strict mode
+   * @param healed - The fallback match
+   */
+  record: (healed: HealedSelector): void => {
+    if (strictMode) {
+      throw new HealedSelectorError(healed);
+    }
+
+    const alreadyRecorded = healedSelectors.some(existing =>
+      existing.pageObject === healed.pageObject
+      && existing.element === healed.element
+      && existing.matched === healed.matched
+    );
+    if (alreadyRecorded) {
+      return;
+    }
+
+    healedSelectors.push(healed);
+    logger.warn(`Healed selector in ${healed.pageObject}: ${healed.element} matched "${healed.matched}" instead of "${healed.primary}"`);
+
+    // Outside a running test (e.g. global setup) there is nothing to annotate
+    try {
+      test.info().annotations.push({
+        type: 'healed-selector',
+        description: `${healed.pageObject} ${healed.element}: "${healed.primary}" -> "${healed.matched}"`
+      });
+    } catch (error) {
+      // Not inside a test
+    }
+  },
+
+  /**
+   * Take the fallback matches recorded since the last call
+   * @returns Fallback matches recorded during the current test
+   */
+  drain: (): HealedSelector[] => {
+    const drained = healedSelectors;
+    healedSelectors = [];
+    return drained;
+  }
+};
+
+/**
+ * Format fallback matches as a readable report
+ * @param healed - Fallback matches
+ * @returns Multi-line report
+ */
+export const formatHealingReport = (healed: HealedSelector[]): string => {
+  const lines = [`${healed.length} selector(s) matched only through a fallback candidate:`];
+  for (const entry of healed) {
+    lines.push(
+      `  ${entry.pageObject} - ${entry.element}`,
+      `    primary:  ${entry.primary}`,
+      `    matched:  ${entry.matched} (candidate ${entry.rank + 1} of ${entry.candidates.length})`
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Interface for a selector that matched through a fallback candidate
+ */
+export interface HealedSelector {
+  pageObject: string;
+  element: string;
+  primary: string;
+  matched: string;
+  rank: number;
+  candidates: readonly string[];
+}
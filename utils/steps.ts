@@ -0,0 +1,109 @@
+import { test } from '@playwright/test';
+import { redaction } from './redaction';
+
+// Arguments longer than this are cut short in step titles
+const maxArgumentLength = 60;
+
+/**
+ * Format a method argument for a step title: strings quoted, locators as their selector,
+ * plain objects and arrays as JSON
+ * @param value - Argument passed to the method
+ * @returns Short text for the title
+ */
+export const formatStepArgument = (value: unknown): string => {
+  let text: string;
+  if (typeof value === 'function') {
+    text = value.name ? `${value.name}()` : '() => {}';
+  } else if (value !== null && typeof value === 'object' && !Array.isArray(value)
+    && value.toString !== Object.prototype.toString) {
+    text = String(value);
+  } else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch (error) {
+      text = String(value);
+    }
+  }
+  return text.length > maxArgumentLength ? `${text.slice(0, maxArgumentLength - 1)}…` : text;
+};
+
+/**
+ * Build the title of a page object method's step, e.g. `ShopPage: buy product "Stuffed Frog", 2`.
+ * Sensitive values registered with redaction are masked.
+ * @param pageObject - Page object the method was called on
+ * @param methodName - Method name
+ * @param args - Arguments the method was called with
+ * @param title - Template or function for the part after the page object name
+ * @returns The step title
+ */
+export const formatStepTitle = <This extends object, Args extends unknown[]>(
+  pageObject: This,
+  methodName: string,
+  args: Args,
+  title?: StepTitle<This, Args>
+): string => {
+  let action: string;
+  if (typeof title === 'function') {
+    action = title(pageObject, ...args);
+  } else if (title) {
+    action = title.replace(/\{(\d+)\}/g, (_placeholder, index: string) => formatStepArgument(args[Number(index)]));
+  } else {
+    // Trailing default arguments the caller left out are not shown
+    let shown = args.length;
+    while (shown > 0 && args[shown - 1] === undefined) {
+      shown--;
+    }
+    const words = methodName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    action = [words, args.slice(0, shown).map(formatStepArgument).join(', ')].filter(Boolean).join(' ');
+  }
+  return redaction.mask(`${pageObject.constructor.name}: ${action}`);
+};
+
+/**
+ * Check whether a test is running, so steps can be reported
+ * @returns False in global setup and scripts, where page objects run outside any test
+ */
+const insideTest = (): boolean => {
+  try {
+    test.info();
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Method decorator reporting each call of a page object method as a test.step, so the HTML report
+ * and trace viewer show what the test did. Steps of methods called from the method nest inside it.
+ * The step is boxed: a failure inside it is reported at the line of the test that called the method.
+ *
+ * Usage:
+ * ```typescript
+ * @step()                      // ShopPage: buy product "Stuffed Frog", 2
+ * @step('log in as {0}')       // LoginPage: log in as "testuser" - leaves the password out
+ * ```
+ * @param title - Template for the title after the page object name, with `{n}` standing for the
+ * nth argument, or a function building it; defaults to the method name followed by every argument
+ * @returns The decorator
+ */
+export const step = <This extends object, Args extends unknown[]>(title?: StepTitle<This, Args>) => {
+  return <Return>(
+    method: (this: This, ...args: Args) => Promise<Return>,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Promise<Return>>
+  ) => {
+    const methodName = String(context.name);
+
+    return function (this: This, ...args: Args): Promise<Return> {
+      if (!insideTest()) {
+        return method.call(this, ...args);
+      }
+      return test.step(formatStepTitle(this, methodName, args, title), () => method.call(this, ...args), { box: true });
+    };
+  };
+};
+
+/**
+ * Title of a page object method's step: a template with `{n}` placeholders, or a function
+ * receiving the page object and the method's arguments
+ */
+export type StepTitle<This, Args extends unknown[]> = string | ((pageObject: This, ...args: Args) => string);
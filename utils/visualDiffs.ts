@@ -0,0 +1,89 @@
+import { TestInfo } from '@playwright/test';
+import { logger } from './logger';
+
+// Visual checkpoint comparisons made during the current test
+let comparisons: VisualComparison[] = [];
+
+/**
+ * Summarise a toHaveScreenshot failure in one line
+ * @param message - Failure message from toHaveScreenshot
+ * @returns How the screenshot differs from its baseline
+ */
+export const describeScreenshotFailure = (message: string): string => {
+  const text = message.replace(/\u001b\[[0-9;]*m/g, '');
+
+  const pixels = text.match(/(\d+) pixels \(ratio ([\d.]+) of all image pixels\) are different/);
+  if (pixels) {
+    return `${pixels[1]} pixels differ (ratio ${pixels[2]} of the image)`;
+  }
+  const size = text.match(/Expected an image (\d+px by \d+px), received (\d+px by \d+px)/);
+  if (size) {
+    return `size changed from ${size[1]} to ${size[2]}`;
+  }
+  return text.split('\n').find(line => line.trim().length > 0)?.trim() || 'screenshot comparison failed';
+};
+
+/**
+ * Check whether the run writes baselines (`--update-snapshots`) rather than only comparing with them
+ * @param testInfo - Info of the running test
+ * @returns Boolean indicating if missing or differing baselines are written
+ */
+export const isUpdatingBaselines = (testInfo: TestInfo): boolean => {
+  return testInfo.config.updateSnapshots === 'all' || testInfo.config.updateSnapshots === 'changed';
+};
+
+/**
+ * Records the outcome of every visual checkpoint compared during a test
+ */
+export const visualDiffs = {
+  /**
+   * Record a checkpoint comparison
+   * @param comparison - Checkpoint and how it compared to its baseline
+   */
+  record: (comparison: VisualComparison): void => {
+    comparisons.push(comparison);
+    if (comparison.matched) {
+      logger.info(`Visual checkpoint ${comparison.checkpoint} matches its baseline`);
+    } else {
+      logger.error(`Visual checkpoint ${comparison.checkpoint} differs from its baseline: ${comparison.difference}`);
+    }
+  },
+
+  /**
+   * Take the comparisons recorded since the last call
+   * @returns Comparisons recorded during the current test
+   */
+  drain: (): VisualComparison[] => {
+    const drained = comparisons;
+    comparisons = [];
+    return drained;
+  }
+};
+
+/**
+ * Format checkpoint comparisons as a readable summary
+ * @param compared - Checkpoint comparisons
+ * @returns Multi-line summary
+ */
+export const formatVisualDiffSummary = (compared: VisualComparison[]): string => {
+  const differing = compared.filter(comparison => !comparison.matched);
+  const lines = [`${differing.length} of ${compared.length} visual checkpoint(s) differ from their baselines:`];
+  for (const comparison of compared) {
+    lines.push(`  ${comparison.matched ? 'ok     ' : 'DIFFERS'}  ${comparison.checkpoint}` +
+      (comparison.matched ? '' : ` - ${comparison.difference}`));
+  }
+  if (differing.length > 0) {
+    lines.push('', 'The expected, actual and diff images are attached to this test.',
+      'If the change is intended, accept it with "npm run visual:update".');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Interface for one visual checkpoint comparison
+ */
+export interface VisualComparison {
+  checkpoint: string;
+  matched: boolean;
+  difference: string | null;
+}